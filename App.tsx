@@ -1,67 +1,159 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { AppTheme, GeneratedImage, AppError, TabType, CanvasLayer } from './types';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { AppTheme, GeneratedImage, AppError, TabType, CanvasLayer, CanvasSettings, ProjectDocument, ProjectResults, BlendMode, TextLayer, ShapeLayer, ShapeKind, TextAlign, TaskType, AspectRatio, ImageSize, GenerationSettings, WorkflowPhase, RefinementThread } from './types';
 import Navbar from './components/Navbar';
 import LayerPanel from './components/LayerPanel';
+import MaskEditor from './components/MaskEditor';
+import RefinementPanel from './components/RefinementPanel';
+import DocumentSettingsPanel from './components/DocumentSettingsPanel';
+import ShortcutSheet from './components/ShortcutSheet';
+import LayerAdjustPanel from './components/LayerAdjustPanel';
+import ProjectLibrary from './components/ProjectLibrary';
+import HistoryPanel from './components/HistoryPanel';
 import { useCanvasHistory } from './hooks/useCanvasHistory';
+import { useWorkflowProgress } from './hooks/useWorkflowProgress';
+import { useAutosave } from './hooks/useAutosave';
+import { useViewport } from './hooks/useViewport';
 import { saveProject, loadProject } from './utils/projectManager';
+import { DEFAULT_CANVAS_SETTINGS, DEFAULT_PROJECT_NAME } from './utils/projectSchema';
+import { ProjectSummary, StorageQuotaError, newProjectId, listProjects, getWorkspace, renameProject, duplicateProject, deleteProject, getLastSession } from './utils/projectStore';
+import { loadImage, dataUrlToImageData, drawImageCover, fetchImageFile, getDroppedImageUrl, createThumbnail } from './utils/imageUtils';
+import { StorageUsage, capHistory, evictForQuota, getStorageUsage, isNearQuota } from './utils/historyUtils';
+import { ingestImageFile, IngestedImage } from './utils/imageIngest';
+import { FULL_CROP, getAdjustmentFilter, getSharpenKernel, hasLayerEdits, rasterizeEditedLayer, renderLayerPixels } from './utils/layerAdjustments';
+import { getLayerSource, rasterizeLayer, toImageLayer, applyTextChanges, measureText, DEFAULT_TEXT_STYLE, DEFAULT_SHAPE_SIZE, FONT_FAMILIES, SHAPE_KINDS, TEXT_PADDING, LINE_HEIGHT } from './utils/layerGraphics';
+import { describeLayerLayout, Point, Bounds, getSelectionBounds, getBoundsCenter, boundsIntersect, scaleLayersAround, rotateLayersAround, getSelectionUnit, groupLayers, ungroupLayers, getSnapTargets, snapBounds, snapAngle, BLEND_MODES, toCompositeOperation, cloneLayers } from './utils/canvasLayout';
 import * as gemini from './services/geminiService';
 
 // --- Constants ---
-const CANVAS_SIZE = 600; // Logical working resolution
-const MIN_VISIBLE_PX = 40; // Ensure at least 40px is always visible
-
-type WorkflowStage = 'idle' | 'analyzing' | 'suggesting' | 'executing' | 'finished';
-
-const PROCESSING_STEPS = {
-  generate: ['Analyzing Prompt Semantics...', 'Consulting Art History Database...', 'Drafting Composition...', 'Synthesizing Textures...', 'Final Polish...'],
-  edit: ['Scanning Composition...', 'Identifying Spatial Relations...', 'Blending Layers...', 'Harmonizing Lighting...', 'Final Render...'],
-  clean: ['Detecting UI Elements...', 'Isolating Subject...', 'Reconstructing Background...', 'Removing Artifacts...', 'Pixel Peeping...'],
-  '3d': ['Analyzing Geometry...', 'Calculating Light Physics...', 'Applying Materials...', 'Raytracing Shadows...', 'Rendering Final Pass...']
+const MIN_VISIBLE_PX = 40; // Ensure at least 40 screen px is always visible
+const WHEEL_ZOOM_SPEED = 0.0015;
+const WHEEL_LINE_HEIGHT = 16; // Pixels per line for wheels that scroll by lines
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10; // With Shift held
+const PASTE_OFFSET = 20; // Also spaces out several files dropped at once
+const MAX_ASSET_BYTES = 20 * 1024 * 1024;
+const CLIPBOARD_MARKER = 'visionmix/layers'; // Put on the system clipboard so paste knows our layers are newest
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '3:2', '2:3', '16:9', '9:16', '21:9'];
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const MAX_CANDIDATES = 4;
+const SNAP_THRESHOLD_PX = 6; // Screen px, so snapping feels the same at any zoom
+const ROTATION_SNAP_DEG = 15; // Shift-drag on the rotation handle
+const GRID_SPACINGS = [10, 20, 40, 50];
+type WorkflowStage = 'idle' | 'analyzing' | 'suggesting' | 'planning' | 'executing' | 'failed' | 'finished';
+type MergeMode = 'layers' | 'flatten';
+type MaskTarget = { kind: 'layer'; layerId: string } | { kind: 'result' };
+type CanvasOperation = 'none' | 'drag' | 'resize' | 'rotate' | 'marquee';
+
+const PHASE_LABELS: Record<WorkflowPhase, string> = {
+  analyzing: 'Analyzing Request',
+  planning: 'Planning Changes',
+  compositing: 'Compositing Canvas',
+  uploading: 'Uploading Sources',
+  waiting: 'Waiting for Model',
+  decoding: 'Decoding Result',
+  saving: 'Saving to History'
 };
 
+// Keyboard shortcuts stay out of the way while the user is typing
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
 const App: React.FC = () => {
   const [theme, setTheme] = useState<AppTheme>('dark');
+  const [providerId, setProviderId] = useState<gemini.ImageProviderId>(() => gemini.getImageProvider().id);
   const [activeTab, setActiveTab] = useState<TabType>(TabType.GENERATE);
   
   // Inputs
   const [prompt, setPrompt] = useState('');
   const [refinePrompt, setRefinePrompt] = useState('');
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>({ aspectRatio: '1:1', imageSize: '1K', candidateCount: 1 });
   
   // Canvas State
+  const [canvasSettings, setCanvasSettings] = useState<CanvasSettings>(DEFAULT_CANVAS_SETTINGS);
+  const [showDocumentSettings, setShowDocumentSettings] = useState(false);
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [showAdjustments, setShowAdjustments] = useState(false);
   const [layers, setLayers] = useState<CanvasLayer[]>([]);
-  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
+  const [mergeMode, setMergeMode] = useState<MergeMode>('layers');
+  const [maskTarget, setMaskTarget] = useState<MaskTarget | null>(null);
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
   
   // Custom Hook for History
-  const { canUndo, canRedo, recordState, undo, redo } = useCanvasHistory();
+  const { canUndo, canRedo, recordState, undo, redo, clearHistory } = useCanvasHistory();
 
   // Interaction State
-  const [activeOperation, setActiveOperation] = useState<'none' | 'drag' | 'resize'>('none');
+  const [activeOperation, setActiveOperation] = useState<CanvasOperation>('none');
   const interactionStartRef = useRef<{ 
-    startX: number; 
-    startY: number; 
-    initialX: number; 
-    initialY: number;
-    initialScale: number;
+    start: Point;
+    pivot: Point; // Center of the selection box; scale and rotate happen around it
     initialDistance: number;
+    initialAngle: number;
     initialLayers: CanvasLayer[]; // Snapshot for undo
-  }>({ startX: 0, startY: 0, initialX: 0, initialY: 0, initialScale: 1, initialDistance: 0, initialLayers: [] });
+    initialSelection: string[];
+  }>({ start: { x: 0, y: 0 }, pivot: { x: 0, y: 0 }, initialDistance: 0, initialAngle: 0, initialLayers: [], initialSelection: [] });
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const [guides, setGuides] = useState<{ x: number[]; y: number[] } | null>(null);
+  const [grid, setGrid] = useState<{ enabled: boolean; spacing: number }>({ enabled: false, spacing: 20 });
   
   const canvasRef = useRef<HTMLDivElement>(null);
 
+  // Viewport State (zoom & pan)
+  const viewport = useViewport();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panStartRef = useRef<Point | null>(null);
+  const touchPointsRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; mid: Point } | null>(null);
+
+  // Clipboard & Shortcuts
+  const clipboardRef = useRef<CanvasLayer[]>([]);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+
   // Workflow State
   const [stage, setStage] = useState<WorkflowStage>('idle');
   const [suggestions, setSuggestions] = useState<string[]>([]);
-  const [activeTaskType, setActiveTaskType] = useState<'generate' | 'edit' | 'clean' | '3d'>('generate');
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const [completedSteps, setCompletedSteps] = useState<boolean[]>([]);
+  const [selectedSuggestion, setSelectedSuggestion] = useState<string | null>(null);
+  const [plan, setPlan] = useState('');
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [activeTaskType, setActiveTaskType] = useState<TaskType>('generate');
+  const progress = useWorkflowProgress();
   const [isImproving, setIsImproving] = useState(false);
   
   const [error, setError] = useState<AppError | null>(null);
   const [history, setHistory] = useState<GeneratedImage[]>([]);
   const [lastResult, setLastResult] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [refinement, setRefinement] = useState<RefinementThread | null>(null);
   
-  const executionRef = useRef<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Project Library & Autosave
+  const [projectId, setProjectId] = useState(newProjectId);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [restoreCandidate, setRestoreCandidate] = useState<ProjectSummary | null>(null);
+  // Autosave waits until the restore question is answered, so it cannot overwrite the old session
+  const [isSessionReady, setIsSessionReady] = useState(false);
+
+  const workspace = useMemo(() => ({
+    document: { name: projectName, canvas: canvasSettings, layers, selectedLayerIds, prompt },
+    results: { history, lastResult }
+  }), [projectName, canvasSettings, layers, selectedLayerIds, prompt, history, lastResult]);
+
+  const refreshProjects = useCallback(() => {
+    listProjects().then(setProjects).catch(() => setProjects([]));
+  }, []);
+
+  // A fresh, untouched project is only stored once it has some content
+  const hasContent = layers.length > 0 || history.length > 0 || prompt.trim() !== '';
+  const autosave = useAutosave(projectId, workspace, isSessionReady && (hasContent || projects.some(p => p.id === projectId)), refreshProjects);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const wasNearQuotaRef = useRef(false);
+  const quotaTrimmedRef = useRef(false);
 
   useEffect(() => {
     if (theme === 'dark') {
@@ -71,37 +163,25 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
-  // Step Animation Effect
-  useEffect(() => {
-    let interval: any;
-    if (stage === 'executing') {
-      const steps = PROCESSING_STEPS[activeTaskType];
-      setCompletedSteps(new Array(steps.length).fill(false));
-      setCurrentStepIndex(0);
-      
-      let step = 0;
-      interval = setInterval(() => {
-        if (step < steps.length - 1) {
-          setCompletedSteps(prev => {
-            const next = [...prev];
-            next[step] = true;
-            return next;
-          });
-          step++;
-          setCurrentStepIndex(step);
-        }
-      }, 2500); // 2.5s per step visual
-    }
-    return () => clearInterval(interval);
-  }, [stage, activeTaskType]);
-
   const toggleTheme = useCallback(() => {
     setTheme(prev => (prev === 'light' ? 'dark' : 'light'));
   }, []);
 
-  const generateError = (message: string, details?: string) => {
+  const changeProvider = useCallback((id: gemini.ImageProviderId) => {
+    gemini.setImageProvider(id);
+    setProviderId(id);
+  }, []);
+
+  const generateError = (message: string, details?: string, cause?: unknown) => {
     const id = Math.random().toString(36).substr(2, 9).toUpperCase();
-    setError({ id, message, details });
+    const modelError = cause instanceof gemini.ModelError ? cause : null;
+    setError({
+      id,
+      message,
+      details,
+      category: modelError?.category,
+      guidance: modelError ? gemini.ERROR_GUIDANCE[modelError.category] : undefined
+    });
     setStage('idle');
     setTimeout(() => setError(null), 8000);
   };
@@ -116,7 +196,7 @@ const App: React.FC = () => {
       if (target === 'main') setPrompt(enhanced);
       else setRefinePrompt(enhanced);
     } catch (err: any) {
-      generateError("Failed to improve prompt", err.message);
+      generateError("Failed to improve prompt", err.message, err);
     } finally {
       setIsImproving(false);
     }
@@ -125,21 +205,117 @@ const App: React.FC = () => {
   // --- Project Management ---
   const handleSaveProject = () => {
     if (layers.length === 0) return;
-    saveProject(layers);
+    saveProject({ name: projectName, canvas: canvasSettings, layers, selectedLayerIds, prompt }, { history, lastResult })
+      .catch(err => generateError("Save Failed", err.message));
   };
 
   const handleLoadProject = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    
-    recordState(layers); // Save current state before loading
+
     loadProject(file)
-      .then(loadedLayers => {
-        setLayers(loadedLayers);
-        if (loadedLayers.length > 0) setSelectedLayerId(loadedLayers[loadedLayers.length - 1].id);
-        e.target.value = ''; // Reset input
+      .then(async ({ document: project, results, warnings }) => {
+        // A loaded file becomes a new project in the library rather than overwriting the open one
+        await autosave.saveNow();
+        setProjectId(newProjectId());
+        // Plain-JSON files never held results, so the new project starts with an empty history
+        applyWorkspace(project, results ?? { history: [], lastResult: null });
+        clearHistory();
+        if (warnings.length > 0) generateError("Project Loaded With Warnings", warnings.join(' '));
+      })
+      .catch(err => generateError("Load Failed", err.message))
+      .finally(() => { e.target.value = ''; }); // Reset input
+  };
+
+  // Replaces the whole workspace; callers clear the undo stack, which belongs to the previous project
+  const applyWorkspace = (project: ProjectDocument, results: ProjectResults) => {
+    setLayers(project.layers);
+    setCanvasSettings(project.canvas);
+    setSelectedLayerIds(project.selectedLayerIds);
+    setPrompt(project.prompt);
+    setProjectName(project.name);
+    setHistory(results.history);
+    setLastResult(results.lastResult);
+    setCandidates([]);
+    setRefinement(null);
+  };
+
+  // Offer to bring back whatever was open when the app was last closed (or crashed)
+  useEffect(() => {
+    Promise.all([getLastSession(), listProjects()])
+      .then(([lastId, stored]) => {
+        setProjects(stored);
+        const last = stored.find(p => p.id === lastId);
+        if (last) setRestoreCandidate(last);
+        else setIsSessionReady(true);
       })
-      .catch(err => generateError("Load Failed", err.message));
+      .catch(() => setIsSessionReady(true)); // Storage unavailable; autosave will report it
+  }, []);
+
+  const openStoredProject = async (id: string) => {
+    try {
+      const stored = await getWorkspace(id);
+      if (!stored) throw new Error("Project not found");
+      applyWorkspace(stored.document, stored.results);
+      setProjectId(id);
+      clearHistory();
+      if (stored.warnings.length > 0) generateError("Project Opened With Warnings", stored.warnings.join(' '));
+    } catch (err: any) {
+      generateError("Open Failed", err.message);
+    }
+  };
+
+  const handleRestoreSession = async (restore: boolean) => {
+    if (restore && restoreCandidate) await openStoredProject(restoreCandidate.id);
+    setRestoreCandidate(null);
+    setIsSessionReady(true);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    await autosave.saveNow();
+    await openStoredProject(id);
+    setShowLibrary(false);
+  };
+
+  const startNewProject = () => {
+    setProjectId(newProjectId());
+    applyWorkspace(
+      { name: DEFAULT_PROJECT_NAME, canvas: DEFAULT_CANVAS_SETTINGS, layers: [], selectedLayerIds: [], prompt: '' },
+      { history: [], lastResult: null }
+    );
+    clearHistory();
+  };
+
+  const handleCreateProject = async () => {
+    await autosave.saveNow();
+    startNewProject();
+    setShowLibrary(false);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    if (id === projectId) setProjectName(name); // Autosave stores it
+    else renameProject(id, name).then(refreshProjects).catch(err => generateError("Rename Failed", err.message));
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      if (id === projectId) await autosave.saveNow();
+      const source = projects.find(p => p.id === id);
+      await duplicateProject(id, `${source?.name ?? DEFAULT_PROJECT_NAME} (Copy)`);
+      refreshProjects();
+    } catch (err: any) {
+      generateError("Duplicate Failed", err.message);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === projectId) startNewProject();
+      refreshProjects();
+    } catch (err: any) {
+      generateError("Delete Failed", err.message);
+    }
   };
 
   // --- Canvas Logic ---
@@ -148,196 +324,609 @@ const App: React.FC = () => {
     const prev = undo(layers);
     if (prev) {
         setLayers(prev);
-        // Deselect if the selected layer no longer exists
-        if (selectedLayerId && !prev.find(l => l.id === selectedLayerId)) {
-            setSelectedLayerId(null);
-        }
+        // Deselect layers that no longer exist
+        setSelectedLayerIds(ids => ids.filter(id => prev.some(l => l.id === id)));
     }
   };
 
   const handleRedo = () => {
     const next = redo(layers);
-    if (next) setLayers(next);
+    if (next) {
+        setLayers(next);
+        setSelectedLayerIds(ids => ids.filter(id => next.some(l => l.id === id)));
+    }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
-    if (files) {
+    if (files) addImageFiles(Array.from(files) as File[]);
+    e.target.value = '';
+  };
+
+  // Imports image files as layers, centered on `dropPoint` when given (document units)
+  // Reports files that are not images or are too large, and returns the rest
+  const acceptImageFiles = (files: File[]): File[] => {
+      const notImages = files.filter(f => !f.type.startsWith('image/'));
+      const tooLarge = files.filter(f => f.type.startsWith('image/') && f.size > MAX_ASSET_BYTES);
+      if (notImages.length > 0 || tooLarge.length > 0) {
+        const problems = [
+          notImages.length > 0 ? `Not an image: ${notImages.map(f => f.name).join(', ')}.` : '',
+          tooLarge.length > 0 ? `Larger than ${MAX_ASSET_BYTES / (1024 * 1024)} MB: ${tooLarge.map(f => f.name).join(', ')}.` : ''
+        ].filter(Boolean).join(' ');
+        generateError(files.length === 1 ? "File Rejected" : "Some Files Were Rejected", problems);
+      }
+      return files.filter(f => !notImages.includes(f) && !tooLarge.includes(f));
+  };
+
+  // Background images go through the same checks and normalisation as layer imports
+  const setBackgroundImage = (file: File) => {
+    if (acceptImageFiles([file]).length === 0) return;
+    ingestImageFile(file, canvasSettings.workingLongEdge)
+      .then(image => {
+        if (image.warnings.length > 0) generateError("Import Warnings", image.warnings.join(' '));
+        setCanvasSettings(prev => ({ ...prev, background: { kind: 'image', url: image.sourceUrl ?? image.url } }));
+      })
+      .catch(err => generateError("Import Failed", err.message));
+  };
+
+  const addImageFiles = (files: File[], dropPoint?: Point) => {
+      const newFiles = acceptImageFiles(files);
+      if (newFiles.length === 0) return;
+
       // Record state before adding files
       recordState(layers);
-      
-      const newFiles = Array.from(files) as File[];
-      newFiles.forEach((file: File) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const img = new Image();
-          img.src = reader.result as string;
-          img.onload = () => {
-            // Smart scaling to fit canvas initially
-            const maxDim = 250;
-            const scale = Math.min(1, maxDim / Math.max(img.width, img.height));
-            
-            // Random jitter to prevent perfect stacking
-            const jitterX = (Math.random() - 0.5) * 40;
-            const jitterY = (Math.random() - 0.5) * 40;
 
-            const newId = Math.random().toString(36).substr(2, 9);
-            
-            setLayers(prev => [
-              ...prev,
-              {
-                id: newId,
-                url: reader.result as string,
-                x: (CANVAS_SIZE / 2) - ((img.width * scale) / 2) + jitterX,
-                y: (CANVAS_SIZE / 2) - ((img.height * scale) / 2) + jitterY,
-                scale: scale,
-                rotation: 0,
-                zIndex: prev.length + 1,
-                aspectRatio: img.width / img.height,
-                originalWidth: img.width,
-                originalHeight: img.height
-              }
-            ]);
-            setSelectedLayerId(newId);
-            setActiveTab(TabType.EDIT); 
+      Promise.allSettled(newFiles.map(file => ingestImageFile(file, canvasSettings.workingLongEdge))).then(results => {
+        const imported = results
+          .filter((r): r is PromiseFulfilledResult<IngestedImage> => r.status === 'fulfilled')
+          .map(r => r.value);
+        const problems = [
+          ...results.filter((r): r is PromiseRejectedResult => r.status === 'rejected').map(r => r.reason.message),
+          ...imported.flatMap(image => image.warnings)
+        ];
+        if (problems.length > 0) {
+          generateError(imported.length === 0 ? "Import Failed" : "Import Warnings", problems.join(' '));
+        }
+        if (imported.length === 0) return;
+
+        // Smart scaling to fit canvas initially
+        const maxDim = 250;
+        const anchor = dropPoint ?? { x: canvasSettings.width / 2, y: canvasSettings.height / 2 };
+        const newLayers: CanvasLayer[] = imported.map((image, index) => {
+          const scale = Math.min(1, maxDim / Math.max(image.width, image.height));
+          // Random jitter to prevent perfect stacking; dropped files fan out from the drop point
+          const jitterX = dropPoint ? index * PASTE_OFFSET : (Math.random() - 0.5) * 40;
+          const jitterY = dropPoint ? index * PASTE_OFFSET : (Math.random() - 0.5) * 40;
+          return {
+            id: Math.random().toString(36).substr(2, 9),
+            kind: 'image',
+            url: image.url,
+            sourceUrl: image.sourceUrl,
+            x: anchor.x - ((image.width * scale) / 2) + jitterX,
+            y: anchor.y - ((image.height * scale) / 2) + jitterY,
+            scale: scale,
+            rotation: 0,
+            zIndex: 0,
+            aspectRatio: image.width / image.height,
+            originalWidth: image.width,
+            originalHeight: image.height
           };
-        };
-        reader.readAsDataURL(file);
+        });
+
+        setLayers(prev => [...prev, ...newLayers.map((layer, idx) => ({ ...layer, zIndex: prev.length + idx + 1 }))]);
+        setSelectedLayerIds(newLayers.map(l => l.id));
+        setActiveTab(TabType.EDIT);
       });
-    }
-    e.target.value = '';
   };
 
-  const getCanvasCoordinates = (e: React.PointerEvent) => {
+  // Screen position to document units. The bounding rect already includes the pan offset.
+  const getCanvasCoordinates = (e: { clientX: number; clientY: number }): Point => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     const rect = canvasRef.current.getBoundingClientRect();
     return {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top
+      x: (e.clientX - rect.left) / viewport.zoom,
+      y: (e.clientY - rect.top) / viewport.zoom
+    };
+  };
+
+  // Clicking selects a layer's whole group; shift toggles it in or out of the selection.
+  const selectLayer = (layer: CanvasLayer, additive: boolean) => {
+    const unit = getSelectionUnit(layers, layer);
+    if (!additive) {
+      setSelectedLayerIds(unit);
+      return;
+    }
+    setSelectedLayerIds(prev => unit.every(id => prev.includes(id))
+      ? prev.filter(id => !unit.includes(id))
+      : [...prev, ...unit.filter(id => !prev.includes(id))]);
+  };
+
+  const beginInteraction = (e: React.PointerEvent, operation: CanvasOperation, selection: string[]) => {
+    const start = getCanvasCoordinates(e);
+    // Locked layers can stay selected but never move with the rest of the selection
+    const movable = operation === 'marquee' ? selection : selection.filter(id => !layers.find(l => l.id === id)?.locked);
+    const bounds = getSelectionBounds(layers.filter(l => movable.includes(l.id)));
+    const pivot = bounds ? getBoundsCenter(bounds) : start;
+
+    setActiveOperation(operation);
+    interactionStartRef.current = {
+      start,
+      pivot,
+      initialDistance: Math.hypot(start.x - pivot.x, start.y - pivot.y),
+      initialAngle: (Math.atan2(start.y - pivot.y, start.x - pivot.x) * 180) / Math.PI,
+      initialLayers: layers, // Save state at start of the operation
+      initialSelection: movable
     };
   };
 
   const handleLayerPointerDown = (e: React.PointerEvent, layer: CanvasLayer) => {
     e.stopPropagation();
     e.preventDefault();
+
+    if (e.shiftKey) {
+      selectLayer(layer, true);
+      return;
+    }
+
     (e.target as Element).setPointerCapture(e.pointerId);
-    
-    setSelectedLayerId(layer.id);
-    setActiveOperation('drag');
-    
-    interactionStartRef.current = {
-      startX: e.clientX,
-      startY: e.clientY,
-      initialX: layer.x,
-      initialY: layer.y,
-      initialScale: layer.scale,
-      initialDistance: 0,
-      initialLayers: layers // Save state at start of drag
-    };
+    // Dragging a layer that is already part of the selection moves the whole selection
+    const unit = getSelectionUnit(layers, layer);
+    const selection = unit.every(id => selectedLayerIds.includes(id)) ? selectedLayerIds : unit;
+    setSelectedLayerIds(selection);
+    beginInteraction(e, 'drag', selection);
   };
 
-  const handleResizePointerDown = (e: React.PointerEvent, layer: CanvasLayer) => {
+  const handleHandlePointerDown = (e: React.PointerEvent, operation: 'resize' | 'rotate') => {
     e.stopPropagation();
     e.preventDefault();
     (e.target as Element).setPointerCapture(e.pointerId);
+    beginInteraction(e, operation, selectedLayerIds);
+  };
 
-    setSelectedLayerId(layer.id);
-    setActiveOperation('resize');
-
-    const coords = getCanvasCoordinates(e);
-    // Calculate distance from the anchor point (top-left of layer) to the pointer
-    const dx = coords.x - layer.x;
-    const dy = coords.y - layer.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
+  const handleCanvasPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
 
-    interactionStartRef.current = {
-      startX: e.clientX,
-      startY: e.clientY,
-      initialX: layer.x,
-      initialY: layer.y,
-      initialScale: layer.scale,
-      initialDistance: dist,
-      initialLayers: layers // Save state at start of resize
-    };
+    const keep = e.shiftKey ? selectedLayerIds : [];
+    const start = getCanvasCoordinates(e);
+    setSelectedLayerIds(keep);
+    setMarquee({ minX: start.x, minY: start.y, maxX: start.x, maxY: start.y });
+    beginInteraction(e, 'marquee', keep);
   };
 
   const handleCanvasPointerMove = (e: React.PointerEvent) => {
-    if (!selectedLayerId) return;
+    if (activeOperation === 'none') return;
+    e.preventDefault();
+
+    const point = getCanvasCoordinates(e);
+    const { start, pivot, initialDistance, initialAngle, initialLayers, initialSelection } = interactionStartRef.current;
+
+    if (activeOperation === 'marquee') {
+      const box = {
+        minX: Math.min(start.x, point.x),
+        minY: Math.min(start.y, point.y),
+        maxX: Math.max(start.x, point.x),
+        maxY: Math.max(start.y, point.y)
+      };
+      setMarquee(box);
+      const hits = new Set(initialSelection);
+      layers
+        .filter(layer => !layer.hidden && !layer.locked)
+        .filter(layer => boundsIntersect(getSelectionBounds([layer])!, box))
+        .forEach(layer => getSelectionUnit(layers, layer).forEach(id => hits.add(id)));
+      setSelectedLayerIds(Array.from(hits));
+      return;
+    }
+
+    const selected = initialLayers.filter(l => initialSelection.includes(l.id));
+    if (selected.length === 0) return;
 
     if (activeOperation === 'drag') {
-      e.preventDefault();
-      const dx = e.clientX - interactionStartRef.current.startX;
-      const dy = e.clientY - interactionStartRef.current.startY;
-      
-      setLayers(prev => prev.map(layer => {
-        if (layer.id === selectedLayerId) {
-          let newX = interactionStartRef.current.initialX + dx;
-          let newY = interactionStartRef.current.initialY + dy;
-          
-          // Boundary Clamping
-          const currentWidth = layer.originalWidth * layer.scale;
-          const currentHeight = layer.originalHeight * layer.scale;
-
-          const maxX = CANVAS_SIZE - MIN_VISIBLE_PX;
-          const minX = MIN_VISIBLE_PX - currentWidth;
-          newX = Math.max(minX, Math.min(newX, maxX));
-
-          const maxY = CANVAS_SIZE - MIN_VISIBLE_PX;
-          const minY = MIN_VISIBLE_PX - currentHeight;
-          newY = Math.max(minY, Math.min(newY, maxY));
-
-          return { 
-            ...layer, 
-            x: newX, 
-            y: newY 
-          };
-        }
-        return layer;
-      }));
-    } else if (activeOperation === 'resize') {
-      e.preventDefault();
-      const selectedLayer = layers.find(l => l.id === selectedLayerId);
-      if (!selectedLayer) return;
+      const bounds = getSelectionBounds(selected)!;
+      const rawX = point.x - start.x;
+      const rawY = point.y - start.y;
+
+      // Snap the moved box to the canvas, the other layers and (if shown) the grid
+      const others = initialLayers.filter(l => !initialSelection.includes(l.id));
+      const targets = getSnapTargets(others, canvasSettings.width, canvasSettings.height, grid.enabled ? grid.spacing : undefined);
+      const snap = snapBounds(
+        { minX: bounds.minX + rawX, minY: bounds.minY + rawY, maxX: bounds.maxX + rawX, maxY: bounds.maxY + rawY },
+        targets,
+        SNAP_THRESHOLD_PX / viewport.zoom
+      );
+      setGuides(snap.guides);
 
-      const coords = getCanvasCoordinates(e);
-      const dx = coords.x - selectedLayer.x;
-      const dy = coords.y - selectedLayer.y;
-      const currentDistance = Math.sqrt(dx * dx + dy * dy);
+      // Boundary Clamping: keep MIN_VISIBLE_PX (on screen) of the selection box on the canvas
+      const minVisible = MIN_VISIBLE_PX / viewport.zoom;
+      const dx = Math.max(minVisible - bounds.maxX, Math.min(rawX + snap.dx, canvasSettings.width - minVisible - bounds.minX));
+      const dy = Math.max(minVisible - bounds.maxY, Math.min(rawY + snap.dy, canvasSettings.height - minVisible - bounds.minY));
 
-      if (interactionStartRef.current.initialDistance > 0) {
-        const newScale = interactionStartRef.current.initialScale * (currentDistance / interactionStartRef.current.initialDistance);
-        const safeScale = Math.max(0.1, newScale);
-        
-        setLayers(prev => prev.map(layer => {
-          if (layer.id === selectedLayerId) {
-            return { ...layer, scale: safeScale };
-          }
-          return layer;
-        }));
+      setLayers(initialLayers.map(layer => initialSelection.includes(layer.id)
+        ? { ...layer, x: layer.x + dx, y: layer.y + dy }
+        : layer));
+    } else if (activeOperation === 'resize') {
+      if (initialDistance > 0) {
+        const currentDistance = Math.hypot(point.x - pivot.x, point.y - pivot.y);
+        // No layer in the selection may shrink below a scale of 0.1
+        const minFactor = 0.1 / Math.min(...selected.map(l => l.scale));
+        const factor = Math.max(minFactor, currentDistance / initialDistance);
+        setLayers(scaleLayersAround(initialLayers, initialSelection, pivot, factor));
       }
+    } else if (activeOperation === 'rotate') {
+      const angle = (Math.atan2(point.y - pivot.y, point.x - pivot.x) * 180) / Math.PI;
+      let delta = angle - initialAngle;
+      if (e.shiftKey) {
+        // A single layer snaps to absolute 15° steps; a group turns in 15° increments
+        const reference = selected.length === 1 ? selected[0].rotation : 0;
+        delta = snapAngle(reference + delta, ROTATION_SNAP_DEG) - reference;
+      }
+      setLayers(rotateLayersAround(initialLayers, initialSelection, pivot, delta));
     }
   };
 
   const handleCanvasPointerUp = (e: React.PointerEvent) => {
-    if (activeOperation !== 'none') {
+    if (activeOperation !== 'none' && activeOperation !== 'marquee') {
         const initialLayers = interactionStartRef.current.initialLayers;
         // Simple check if state changed, if so, record the previous state for Undo
         if (initialLayers !== layers) {
              recordState(initialLayers);
         }
     }
+    setMarquee(null);
+    setGuides(null);
     setActiveOperation('none');
   };
 
+  // Abandons a half-finished drag/scale/rotate, e.g. when a second finger turns it into a pinch
+  const cancelCanvasInteraction = () => {
+    if (activeOperation !== 'none' && activeOperation !== 'marquee') {
+      setLayers(interactionStartRef.current.initialLayers);
+    }
+    setMarquee(null);
+    setGuides(null);
+    setActiveOperation('none');
+  };
+
+  // --- Keyboard & Clipboard ---
+
+  const nudgeSelection = (dx: number, dy: number, record: boolean) => {
+    const movable = selectedLayers.filter(l => !l.locked).map(l => l.id);
+    if (movable.length === 0) return;
+    if (record) recordState(layers);
+    setLayers(prev => prev.map(l => movable.includes(l.id) ? { ...l, x: l.x + dx, y: l.y + dy } : l));
+  };
+
+  // Pastes copies on top of the stack, nudged so they don't hide the originals
+  const pasteLayers = (source: CanvasLayer[]) => {
+    if (source.length === 0) return;
+    const copies = cloneLayers(source, PASTE_OFFSET, PASTE_OFFSET);
+    recordState(layers);
+    setLayers(prev => [...prev, ...copies].map((l, idx) => ({ ...l, zIndex: idx + 1 })));
+    setSelectedLayerIds(copies.map(l => l.id));
+    setActiveTab(TabType.EDIT);
+  };
+
+  const selectAllLayers = () => {
+    setSelectedLayerIds(layers.filter(l => !l.hidden && !l.locked).map(l => l.id));
+  };
+
+  const handleEscape = () => {
+    if (showShortcuts) setShowShortcuts(false);
+    else if (showLibrary) setShowLibrary(false);
+    else if (maskTarget) setMaskTarget(null);
+    else if (stage === 'analyzing' || stage === 'suggesting' || stage === 'planning' || stage === 'executing') cancelWorkflow();
+    else if (stage === 'failed') setStage('idle');
+    else setSelectedLayerIds([]);
+  };
+
+  // Re-subscribed on every render so the handlers always see current state
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+
+      if (e.key === 'Escape') {
+        handleEscape();
+      } else if (e.key === '?') {
+        setShowShortcuts(prev => !prev);
+      } else if (activeTab !== TabType.EDIT || stage !== 'idle' && stage !== 'finished' || maskTarget) {
+        return;
+      } else if (mod && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (mod && key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (mod && key === 'a') {
+        e.preventDefault();
+        selectAllLayers();
+      } else if (mod && key === 'd') {
+        e.preventDefault();
+        pasteLayers(selectedLayers);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedLayerIds.length > 0) {
+        e.preventDefault();
+        const removable = selectedLayers.filter(l => !l.locked).map(l => l.id);
+        if (removable.length > 0) removeLayers(removable);
+      } else if (e.key.startsWith('Arrow') && selectedLayerIds.length > 0) {
+        e.preventDefault();
+        const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+        const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+        const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+        // A held key is one undo step
+        nudgeSelection(dx, dy, !e.repeat);
+      }
+    };
+
+    // Copy and cut go through the native events so the system clipboard learns about them too
+    const handleCopy = (e: ClipboardEvent, cut: boolean) => {
+      if (isTypingTarget(e.target) || activeTab !== TabType.EDIT || selectedLayers.length === 0) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', CLIPBOARD_MARKER);
+      clipboardRef.current = selectedLayers;
+      // Cutting copies locked layers but leaves them in place
+      const removable = selectedLayers.filter(l => !l.locked).map(l => l.id);
+      if (cut && removable.length > 0) removeLayers(removable);
+    };
+    const handleCopyEvent = (e: ClipboardEvent) => handleCopy(e, false);
+    const handleCutEvent = (e: ClipboardEvent) => handleCopy(e, true);
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTypingTarget(e.target) || stage !== 'idle' && stage !== 'finished') return;
+      const data = e.clipboardData;
+      if (!data) return;
+      const images = Array.from(data.files).filter(file => file.type.startsWith('image/'));
+      if (data.getData('text/plain') === CLIPBOARD_MARKER && clipboardRef.current.length > 0) {
+        e.preventDefault();
+        pasteLayers(clipboardRef.current);
+      } else if (images.length > 0) {
+        e.preventDefault();
+        addImageFiles(images);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('copy', handleCopyEvent);
+    window.addEventListener('cut', handleCutEvent);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('copy', handleCopyEvent);
+      window.removeEventListener('cut', handleCutEvent);
+      window.removeEventListener('paste', handlePaste);
+    };
+  });
+
+  // --- Drag & Drop Import ---
+
+  const handleCanvasDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleCanvasDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const point = getCanvasCoordinates(e);
+
+    const files = Array.from(e.dataTransfer.files) as File[];
+    if (files.length > 0) {
+      addImageFiles(files, point);
+      return;
+    }
+
+    // History cards and images from other tabs arrive as links
+    const url = getDroppedImageUrl(e.dataTransfer);
+    if (!url) {
+      generateError("Nothing to Import", "Drop image files, or drag an image from another tab or from History.");
+      return;
+    }
+    try {
+      addImageFiles([await fetchImageFile(url)], point);
+    } catch (err: any) {
+      generateError("Import Failed", err.message);
+    }
+  };
+
+  // --- Viewport ---
+
+  const fitToScreen = useCallback(() => {
+    const el = viewportRef.current;
+    if (el) viewport.centerDocument(el.clientWidth, el.clientHeight, canvasSettings.width, canvasSettings.height);
+  }, [viewport.centerDocument, canvasSettings.width, canvasSettings.height]);
+
+  const zoomToActualSize = () => {
+    const el = viewportRef.current;
+    if (el) viewport.centerDocument(el.clientWidth, el.clientHeight, canvasSettings.width, canvasSettings.height, 1);
+  };
+
+  const zoomFromCenter = (factor: number) => {
+    const el = viewportRef.current;
+    if (el) viewport.zoomAt(factor, el.clientWidth / 2, el.clientHeight / 2);
+  };
+
+  // Refit whenever the document size changes or the workspace is shown again
+  useEffect(() => {
+    if (activeTab === TabType.EDIT) fitToScreen();
+  }, [activeTab, fitToScreen]);
+
+  // Ctrl/Cmd+wheel zooms (browsers report trackpad pinches that way); a plain wheel or two-finger
+  // scroll pans. Needs a non-passive listener so the page doesn't scroll underneath.
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const unit = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      if (e.ctrlKey || e.metaKey) {
+        const rect = el.getBoundingClientRect();
+        viewport.zoomAt(Math.exp(-e.deltaY * unit * WHEEL_ZOOM_SPEED), e.clientX - rect.left, e.clientY - rect.top);
+      } else {
+        viewport.panBy(-e.deltaX * unit, -e.deltaY * unit);
+      }
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [activeTab, viewport.zoomAt, viewport.panBy]);
+
+  // Holding space turns the pointer into a pan tool, unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target) || activeTab !== TabType.EDIT) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [activeTab]);
+
+  const getPinch = () => {
+    const [a, b]: Point[] = Array.from(touchPointsRef.current.values());
+    return { distance: Math.hypot(b.x - a.x, b.y - a.y), mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+  };
+
+  // Runs in the capture phase, before layers and the canvas see the pointer
+  const handleViewportPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'touch') {
+      touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touchPointsRef.current.size === 2) {
+        e.stopPropagation();
+        cancelCanvasInteraction();
+        pinchRef.current = getPinch();
+        return;
+      }
+    }
+
+    if (isSpaceHeld || e.button === 1) {
+      e.stopPropagation();
+      e.preventDefault();
+      (e.currentTarget as Element).setPointerCapture(e.pointerId);
+      panStartRef.current = { x: e.clientX, y: e.clientY };
+      setIsPanning(true);
+    }
+  };
+
+  const handleViewportPointerMove = (e: React.PointerEvent) => {
+    if (touchPointsRef.current.has(e.pointerId)) {
+      touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+
+    if (pinchRef.current && touchPointsRef.current.size >= 2 && viewportRef.current) {
+      const rect = viewportRef.current.getBoundingClientRect();
+      const next = getPinch();
+      viewport.zoomAt(next.distance / pinchRef.current.distance, next.mid.x - rect.left, next.mid.y - rect.top);
+      viewport.panBy(next.mid.x - pinchRef.current.mid.x, next.mid.y - pinchRef.current.mid.y);
+      pinchRef.current = next;
+    } else if (panStartRef.current) {
+      viewport.panBy(e.clientX - panStartRef.current.x, e.clientY - panStartRef.current.y);
+      panStartRef.current = { x: e.clientX, y: e.clientY };
+    }
+  };
+
+  const handleViewportPointerUp = (e: React.PointerEvent) => {
+    touchPointsRef.current.delete(e.pointerId);
+    if (touchPointsRef.current.size < 2) pinchRef.current = null;
+    if (panStartRef.current) {
+      panStartRef.current = null;
+      setIsPanning(false);
+    }
+  };
+
   const updateLayer = (id: string, updates: Partial<CanvasLayer>) => {
     // For specific UI controls (sliders), we update directly.
     setLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
   };
 
-  const removeLayer = (id: string) => {
+  const addTextLayer = () => {
+    const text = 'Your text';
+    const { width, height } = measureText({ text, ...DEFAULT_TEXT_STYLE });
+    const layer: TextLayer = {
+      id: Math.random().toString(36).substr(2, 9),
+      kind: 'text',
+      text,
+      ...DEFAULT_TEXT_STYLE,
+      x: (canvasSettings.width - width) / 2,
+      y: (canvasSettings.height - height) / 2,
+      scale: 1,
+      rotation: 0,
+      zIndex: layers.length + 1,
+      aspectRatio: width / height,
+      originalWidth: width,
+      originalHeight: height
+    };
+    recordState(layers);
+    setLayers(prev => [...prev, { ...layer, zIndex: prev.length + 1 }]);
+    setSelectedLayerIds([layer.id]);
+    setEditingTextId(layer.id);
+  };
+
+  const addShapeLayer = (shape: ShapeKind) => {
+    const { width, height } = DEFAULT_SHAPE_SIZE[shape];
+    const isStroke = shape === 'line' || shape === 'arrow';
+    const layer: ShapeLayer = {
+      id: Math.random().toString(36).substr(2, 9),
+      kind: 'shape',
+      shape,
+      fill: isStroke ? null : '#0ea5e9',
+      stroke: '#0f172a',
+      strokeWidth: isStroke ? 6 : 4,
+      x: (canvasSettings.width - width) / 2,
+      y: (canvasSettings.height - height) / 2,
+      scale: 1,
+      rotation: 0,
+      zIndex: layers.length + 1,
+      aspectRatio: width / height,
+      originalWidth: width,
+      originalHeight: height
+    };
+    recordState(layers);
+    setLayers(prev => [...prev, { ...layer, zIndex: prev.length + 1 }]);
+    setSelectedLayerIds([layer.id]);
+  };
+
+  // Text edits re-measure the layer box. Pass record=false for live typing and color drags.
+  const updateTextLayer = (id: string, updates: Partial<TextLayer>, record = true) => {
+    if (record) recordState(layers);
+    setLayers(prev => prev.map(l => l.id === id && l.kind === 'text' ? applyTextChanges(l, updates) : l));
+  };
+
+  const startTextEditing = (layer: CanvasLayer) => {
+    if (layer.kind !== 'text' || layer.locked) return;
+    recordState(layers); // The whole edit session is one undo step
+    setEditingTextId(layer.id);
+  };
+
+  // Discrete changes (toggles, pickers) that should each be their own undo step
+  const commitLayerUpdate = (id: string, updates: Partial<CanvasLayer>) => {
+    recordState(layers);
+    updateLayer(id, updates);
+  };
+
+  const removeLayers = (ids: string[]) => {
     recordState(layers);
-    setLayers(prev => prev.filter(l => l.id !== id));
-    if (selectedLayerId === id) setSelectedLayerId(null);
+    setLayers(prev => prev.filter(l => !ids.includes(l.id)).map((l, idx) => ({ ...l, zIndex: idx + 1 })));
+    setSelectedLayerIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const groupSelection = () => {
+    if (selectedLayerIds.length < 2) return;
+    recordState(layers);
+    setLayers(prev => groupLayers(prev, selectedLayerIds, Math.random().toString(36).substr(2, 9)));
+  };
+
+  const ungroupSelection = () => {
+    recordState(layers);
+    setLayers(prev => ungroupLayers(prev, selectedLayerIds));
   };
 
   const reorderLayer = (id: string, direction: 'up' | 'down') => {
@@ -356,51 +945,52 @@ const App: React.FC = () => {
     });
   };
 
-  const centerLayer = (id: string) => {
+  const centerSelection = (ids: string[]) => {
+     const bounds = getSelectionBounds(layers.filter(l => ids.includes(l.id)));
+     if (!bounds) return;
      recordState(layers);
-     const l = layers.find(l => l.id === id);
-     if (l) {
-        setLayers(prev => prev.map(layer => {
-            if (layer.id === id) {
-                return {
-                    ...layer,
-                    x: (CANVAS_SIZE / 2) - ((l.originalWidth * l.scale) / 2),
-                    y: (CANVAS_SIZE / 2) - ((l.originalHeight * l.scale) / 2)
-                };
-            }
-            return layer;
-        }));
-     }
-  };
-
-  // Compose canvas to a single image
+     const center = getBoundsCenter(bounds);
+     const dx = (canvasSettings.width / 2) - center.x;
+     const dy = (canvasSettings.height / 2) - center.y;
+     setLayers(prev => prev.map(layer => ids.includes(layer.id) ? { ...layer, x: layer.x + dx, y: layer.y + dy } : layer));
+  };
+
+  // Compose canvas to a single image, with the longer edge at the export resolution
   const renderCanvasToImage = async (): Promise<string> => {
+    const { width, height, background, exportLongEdge } = canvasSettings;
+    const ratio = exportLongEdge / Math.max(width, height);
     const canvas = document.createElement('canvas');
-    canvas.width = 1024;
-    canvas.height = 1024;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error("Could not get canvas context");
 
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, 1024, 1024);
+    if (background.kind === 'color') {
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    } else if (background.kind === 'image') {
+      drawImageCover(ctx, await loadImage(background.url), canvas.width, canvas.height);
+    }
 
-    const sortedLayers = [...layers]; 
+    const sortedLayers = layers.filter(l => !l.hidden); 
 
     for (const layer of sortedLayers) {
       const img = new Image();
-      img.src = layer.url;
+      img.src = layer.kind === 'image' && layer.sourceUrl ? layer.sourceUrl : getLayerSource(layer);
       await new Promise(r => img.onload = r);
       
-      const ratio = 1024 / CANVAS_SIZE;
-      
       ctx.save();
+      ctx.globalAlpha = layer.opacity ?? 1;
+      ctx.globalCompositeOperation = toCompositeOperation(layer.blendMode);
       ctx.translate(
         (layer.x + (layer.originalWidth * layer.scale) / 2) * ratio, 
         (layer.y + (layer.originalHeight * layer.scale) / 2) * ratio
       );
       ctx.rotate((layer.rotation * Math.PI) / 180);
       ctx.drawImage(
-        img, 
+        hasLayerEdits(layer)
+          ? renderLayerPixels(img, layer, layer.originalWidth * layer.scale * ratio, layer.originalHeight * layer.scale * ratio, layer.scale * ratio)
+          : img, 
         (-layer.originalWidth * layer.scale * ratio) / 2, 
         (-layer.originalHeight * layer.scale * ratio) / 2, 
         layer.originalWidth * layer.scale * ratio, 
@@ -414,66 +1004,310 @@ const App: React.FC = () => {
 
   // --- Workflow Handlers ---
 
-  const startWorkflow = async (taskType: 'generate' | 'edit' | 'clean' | '3d', initialPrompt: string = '', targetImage?: string) => {
+  // Aborts whatever is still running and hands out a fresh signal for the next request.
+  const beginRequest = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelWorkflow = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    progress.cancel();
+    setIsPlanning(false);
+    setStage('idle');
+  };
+
+  const startWorkflow = async (taskType: TaskType, initialPrompt: string = '', targetImage?: string) => {
     setActiveTaskType(taskType);
+    setSelectedSuggestion(null);
+    setPlan('');
     setStage('analyzing');
+    // Analysis and planning are single-phase runs so their failures show up like execution failures
+    progress.reset(['analyzing']);
+    progress.enter('analyzing');
+    const signal = beginRequest();
     
     try {
       const suggestionsList = await gemini.generateCreativeSuggestions(
         initialPrompt || (targetImage ? 'Transform this image' : ''), 
         layers.length, 
-        taskType
+        taskType,
+        { signal }
       );
+      if (signal.aborted) return;
       setSuggestions(suggestionsList);
+      progress.complete();
       setStage('suggesting');
     } catch (err: any) {
-      generateError("Analysis Failed", err.message);
+      // Cancellation is already recorded by cancelWorkflow; late failures are dropped.
+      if (signal.aborted || gemini.isAbortError(err)) return;
+      progress.fail();
+      generateError("Analysis Failed", err.message, err);
+      setStage('failed');
     }
   };
 
-  const executeTask = async (selectedSuggestion: string) => {
+  // `instruction` is the exact text sent to the model: the suggestion for generations, the approved plan otherwise
+  const executeTask = async (instruction: string) => {
+    const needsComposite = activeTaskType === 'edit' || ((activeTaskType === 'clean' || activeTaskType === '3d') && !lastResult);
+    const phases: WorkflowPhase[] = ['uploading', 'waiting', 'decoding', 'saving'];
+    progress.reset(needsComposite ? ['compositing', ...phases] : phases);
     setStage('executing');
-    executionRef.current = true;
+    const signal = beginRequest();
+    const requestOptions = { signal, onPhase: progress.enter };
     
     try {
-      let url = '';
-      await new Promise(r => setTimeout(r, 1000));
+      let urls: string[] = [];
+      let sourceImages: string[] = [];
 
       if (activeTaskType === 'generate') {
-        url = await gemini.generateImage(selectedSuggestion);
+        urls = await gemini.generateImage(instruction, generationSettings, requestOptions);
       } 
       else if (activeTaskType === 'edit') {
+        progress.enter('compositing');
         const compositeImage = await renderCanvasToImage();
         const imageData = { data: compositeImage, mimeType: 'image/png' };
-        const instruction = selectedSuggestion;
-        url = await gemini.editImage([imageData], instruction, false);
+        sourceImages = [compositeImage];
+        if (mergeMode === 'layers') {
+          // Back-to-front, matching the numbering used in the layout description
+          const orderedLayers = layers.filter(l => !l.hidden).sort((a, b) => a.zIndex - b.zIndex);
+          const sources = (await Promise.all(orderedLayers.map(l => rasterizeEditedLayer(l)))).map(dataUrlToImageData);
+          const layout = describeLayerLayout(orderedLayers, canvasSettings.width, canvasSettings.height);
+          urls = [await gemini.mergeLayers(sources, imageData, instruction, layout, requestOptions)];
+        } else {
+          urls = [await gemini.editImage([imageData], instruction, false, requestOptions)];
+        }
       }
       else if (activeTaskType === 'clean' || activeTaskType === '3d') {
+        if (needsComposite) progress.enter('compositing');
         const target = lastResult || (layers.length > 0 ? await renderCanvasToImage() : null);
         if (!target) throw new Error("No source image found");
         const imageData = { data: target, mimeType: 'image/png' };
-        url = await gemini.editImage([imageData], selectedSuggestion, true);
+        sourceImages = [target];
+        urls = [await gemini.editImage([imageData], instruction, true, requestOptions)];
+      }
+
+      // The user may have cancelled while the last await was settling
+      if (signal.aborted) return;
+
+      progress.enter('decoding');
+      await Promise.all(urls.map(loadImage));
+      if (signal.aborted) return;
+
+      progress.enter('saving');
+      const sourceThumbnails = await createThumbnails(sourceImages);
+      if (signal.aborted) return;
+      const record = { taskType: activeTaskType, model: getModelId(activeTaskType), sourceThumbnails, instruction };
+      if (activeTaskType === 'generate') {
+        // Newest first in history, so the first candidate ends up on top
+        [...urls].reverse().forEach(candidate => addToHistory(candidate, instruction, 'generation', { ...record, settings: generationSettings }));
+        setCandidates(urls);
+      } else {
+        // Clean and 3D chain off the last result; working from the canvas starts a new lineage
+        addToHistory(urls[0], selectedSuggestion ?? instruction, 'edit', {
+          ...record,
+          parentId: needsComposite ? undefined : findHistoryId(lastResult),
+          sourceLayerIds: needsComposite ? layers.filter(l => !l.hidden).map(l => l.id) : undefined
+        });
+        setCandidates([]);
       }
+      setLastResult(urls[0]);
+      progress.complete();
+      setStage('finished');
+    } catch (err: any) {
+      if (signal.aborted || gemini.isAbortError(err)) return;
+      progress.fail();
+      generateError("Execution Failed", err.message, err);
+      // Keep the overlay up so the phase that broke stays visible
+      setStage('failed');
+    } finally {
+      if (abortControllerRef.current?.signal === signal) abortControllerRef.current = null;
+    }
+  };
+
+  // Runs the analyzer that fits the task on the real source images and returns an editable plan.
+  const buildPlan = async (suggestion: string) => {
+    setSelectedSuggestion(suggestion);
+    setPlan('');
+    setStage('planning');
+    setIsPlanning(true);
+    progress.reset(['planning']);
+    progress.enter('planning');
+    const signal = beginRequest();
+
+    try {
+      let planText = '';
+      if (activeTaskType === 'edit') {
+        const orderedLayers = layers.filter(l => !l.hidden).sort((a, b) => a.zIndex - b.zIndex);
+        const sources = (await Promise.all(orderedLayers.map(l => rasterizeEditedLayer(l)))).map(dataUrlToImageData);
+        planText = await gemini.createMergePlan(sources, suggestion, { signal });
+      } else {
+        const target = lastResult || (layers.length > 0 ? await renderCanvasToImage() : null);
+        if (!target) throw new Error("No source image found");
+        if (activeTaskType === 'clean') {
+          const analysis = await gemini.analyzeForDeepClean(dataUrlToImageData(target), { signal });
+          planText = `${suggestion}. ${analysis}`;
+        } else {
+          // No 3D-specific planner: the merge planner with a single source describes how to apply the suggestion
+          planText = await gemini.createMergePlan([dataUrlToImageData(target)], suggestion, { signal });
+        }
+      }
+      if (signal.aborted) return;
+      setPlan(planText);
+      progress.complete();
+    } catch (err: any) {
+      if (signal.aborted || gemini.isAbortError(err)) return;
+      progress.fail();
+      generateError("Planning Failed", err.message, err);
+      setStage('failed');
+    } finally {
+      if (abortControllerRef.current?.signal === signal) {
+        abortControllerRef.current = null;
+        setIsPlanning(false);
+      }
+    }
+  };
+
+  const handleSuggestionSelect = (suggestion: string) => {
+    if (activeTaskType === 'generate') {
+      executeTask(suggestion);
+    } else {
+      buildPlan(suggestion);
+    }
+  };
+
+  const runInpaint = async (maskUrl: string, instruction: string) => {
+    const target = maskTarget;
+    const targetLayer = target?.kind === 'layer' ? layers.find(l => l.id === target.layerId) : undefined;
+    setMaskTarget(null);
+    if (!target || (target.kind === 'layer' ? !targetLayer : !lastResult)) return;
 
+    setActiveTaskType('inpaint');
+    progress.reset(['uploading', 'waiting', 'decoding', 'saving']);
+    setStage('executing');
+    const signal = beginRequest();
+
+    try {
+      // Text and shape layers are flattened to pixels first; the result replaces them as an image
+      const sourceUrl = targetLayer ? await rasterizeLayer(targetLayer) : lastResult!;
+      const url = await gemini.inpaintImage(
+        dataUrlToImageData(sourceUrl),
+        { data: maskUrl, mimeType: 'image/png' },
+        instruction,
+        { signal, onPhase: progress.enter }
+      );
+      if (signal.aborted) return;
+
+      progress.enter('decoding');
+      await loadImage(url);
+      if (signal.aborted) return;
+
+      progress.enter('saving');
+      if (targetLayer) {
+        // Same pixel size as before, so the layer keeps its geometry
+        recordState(layers);
+        setLayers(prev => prev.map(l => l.id === targetLayer.id ? toImageLayer(l, url) : l));
+      }
+      const sourceThumbnails = await createThumbnails([sourceUrl]);
+      addToHistory(url, instruction, 'edit', {
+        sourceLayerIds: targetLayer ? [targetLayer.id] : undefined,
+        taskType: 'inpaint',
+        model: getModelId('inpaint'),
+        sourceThumbnails,
+        instruction,
+        parentId: targetLayer ? undefined : findHistoryId(lastResult)
+      });
+      setCandidates([]);
+      setLastResult(url);
+      progress.complete();
+      setStage('finished');
+    } catch (err: any) {
+      if (signal.aborted || gemini.isAbortError(err)) return;
+      progress.fail();
+      generateError("Inpaint Failed", err.message, err);
+      setStage('failed');
+    } finally {
+      if (abortControllerRef.current?.signal === signal) abortControllerRef.current = null;
+    }
+  };
+
+  // --- Refinement Thread ---
+
+  const getThreadUrl = (thread: RefinementThread) => {
+    return thread.activeIndex >= 0 ? thread.turns[thread.activeIndex].resultUrl : thread.baseUrl;
+  };
+
+  // The stored thread only applies while it is showing; any other result starts a fresh one.
+  const activeThread: RefinementThread | null = lastResult
+    ? (refinement && getThreadUrl(refinement) === lastResult ? refinement : { baseUrl: lastResult, turns: [], activeIndex: -1 })
+    : null;
+
+  const jumpToRefinementStep = (index: number) => {
+    if (!activeThread) return;
+    const next = { ...activeThread, activeIndex: index };
+    setRefinement(next);
+    setCandidates([]);
+    setLastResult(getThreadUrl(next));
+  };
+
+  const runRefinement = async () => {
+    const thread = activeThread;
+    const instruction = refinePrompt.trim();
+    if (!thread || !instruction) return;
+
+    // Steps past the active one are replaced by the new branch
+    const context = thread.turns.slice(0, thread.activeIndex + 1);
+    setActiveTaskType('refine');
+    progress.reset(['uploading', 'waiting', 'decoding', 'saving']);
+    setStage('executing');
+    const signal = beginRequest();
+
+    try {
+      const url = await gemini.refineImage(
+        dataUrlToImageData(thread.baseUrl),
+        context.map(turn => ({ instruction: turn.instruction, result: dataUrlToImageData(turn.resultUrl) })),
+        instruction,
+        { signal, onPhase: progress.enter }
+      );
+      if (signal.aborted) return;
+
+      progress.enter('decoding');
+      await loadImage(url);
+      if (signal.aborted) return;
+
+      progress.enter('saving');
+      const turn = { id: Math.random().toString(36).substr(2, 9), instruction, resultUrl: url, timestamp: Date.now() };
+      setRefinement({ baseUrl: thread.baseUrl, turns: [...context, turn], activeIndex: context.length });
+      const sourceUrl = context.length > 0 ? context[context.length - 1].resultUrl : thread.baseUrl;
+      const sourceThumbnails = await createThumbnails([sourceUrl]);
+      addToHistory(url, instruction, 'edit', { taskType: 'refine', model: getModelId('refine'), sourceThumbnails, instruction, parentId: findHistoryId(sourceUrl) });
+      setCandidates([]);
       setLastResult(url);
-      addToHistory(url, selectedSuggestion, activeTaskType === 'generate' ? 'generation' : 'edit');
+      setRefinePrompt('');
+      progress.complete();
       setStage('finished');
     } catch (err: any) {
-      generateError("Execution Failed", err.message);
+      if (signal.aborted || gemini.isAbortError(err)) return;
+      progress.fail();
+      generateError("Refinement Failed", err.message, err);
+      setStage('failed');
     } finally {
-      executionRef.current = false;
+      if (abortControllerRef.current?.signal === signal) abortControllerRef.current = null;
     }
   };
 
   const handleDeepCleanStart = () => {
     if (layers.length > 0 || lastResult) {
-      startWorkflow('clean', "Remove UI clutter and status bars", lastResult || layers[0].url);
+      startWorkflow('clean', "Remove UI clutter and status bars", lastResult || getLayerSource(layers[0]));
     }
   };
 
   const handle3DStart = () => {
     if (layers.length > 0 || lastResult) {
-      startWorkflow('3d', "Convert to 3D", lastResult || layers[0].url);
+      startWorkflow('3d', "Convert to 3D", lastResult || getLayerSource(layers[0]));
     }
   };
 
@@ -485,22 +1319,168 @@ const App: React.FC = () => {
     }
   };
 
-  const addToHistory = (url: string, p: string, type: 'generation' | 'edit') => {
+  const addToHistory = (url: string, p: string, type: 'generation' | 'edit', extras: Pick<GeneratedImage, 'settings' | 'sourceLayerIds' | 'taskType' | 'model' | 'sourceThumbnails' | 'parentId' | 'instruction'> = {}) => {
     const newEntry: GeneratedImage = {
-      id: Date.now().toString(),
+      id: `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
       url,
       prompt: p,
       timestamp: Date.now(),
-      type
+      type,
+      ...extras
     };
-    setHistory(prev => [newEntry, ...prev]);
+    setHistory(prev => capHistory([newEntry, ...prev]));
   };
 
-  const selectedLayer = layers.find(l => l.id === selectedLayerId);
+  // History entry an image was saved as, so a follow-up task can point back at it
+  const findHistoryId = (url: string | null) => url ? history.find(item => item.url === url)?.id : undefined;
+
+  // Previews of the model inputs for the history detail view; a preview that fails is left out
+  const createThumbnails = async (urls: string[]) =>
+    (await Promise.all(urls.map(url => createThumbnail(url).catch(() => null)))).filter((t): t is string => t !== null);
+
+  const getModelId = (task: TaskType) => {
+    const { models } = gemini.getImageProvider();
+    return task === 'generate' && generationSettings.imageSize !== '1K' ? models.imageHighRes : models.image;
+  };
+
+  const toggleFavorite = (id: string) => {
+    setHistory(prev => prev.map(item => item.id === id ? { ...item, favorite: !item.favorite } : item));
+  };
+
+  const deleteHistoryEntries = (ids: string[]) => {
+    const removed = history.filter(item => ids.includes(item.id));
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    if (removed.some(item => item.url === lastResult)) {
+      setLastResult(null);
+      setCandidates([]);
+    }
+  };
+
+  // Keep history within the browser quota: trim once when usage crosses the high-water mark,
+  // and once per run of refused saves. A trim autosaves, so repeating it would empty the history.
+  useEffect(() => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+    quotaTrimmedRef.current = false; // A save went through
+  }, [autosave.savedAt]);
+
+  useEffect(() => {
+    const nearQuota = !!storageUsage && isNearQuota(storageUsage);
+    if (nearQuota && !wasNearQuotaRef.current) setHistory(prev => evictForQuota(prev));
+    wasNearQuotaRef.current = nearQuota;
+  }, [storageUsage]);
+
+  useEffect(() => {
+    if (!(autosave.error instanceof StorageQuotaError) || quotaTrimmedRef.current) return;
+    quotaTrimmedRef.current = true;
+    const before = history.length;
+    const trimmed = evictForQuota(history);
+    if (trimmed.length < before) {
+      setHistory(trimmed);
+      generateError("Storage Full", `Removed the ${before - trimmed.length} oldest history entries to make room. Favorites are kept.`);
+    }
+  }, [autosave.error, history]);
+
+  // --- Results back into the canvas ---
+
+  const createImageLayer = (url: string, width: number, height: number, placement: Pick<CanvasLayer, 'x' | 'y' | 'scale' | 'rotation'>, zIndex: number): CanvasLayer => ({
+    id: Math.random().toString(36).substr(2, 9),
+    kind: 'image',
+    url,
+    ...placement,
+    zIndex,
+    aspectRatio: width / height,
+    originalWidth: width,
+    originalHeight: height
+  });
+
+  // Largest placement that fits the canvas, centered
+  const fitToCanvas = (width: number, height: number) => {
+    const scale = Math.min(1, canvasSettings.width / width, canvasSettings.height / height);
+    return {
+      x: (canvasSettings.width - width * scale) / 2,
+      y: (canvasSettings.height - height * scale) / 2,
+      scale,
+      rotation: 0
+    };
+  };
+
+  const addResultToCanvas = async (url: string) => {
+    try {
+      const img = await loadImage(url);
+      const layer = createImageLayer(url, img.naturalWidth, img.naturalHeight, fitToCanvas(img.naturalWidth, img.naturalHeight), layers.length + 1);
+      recordState(layers);
+      setLayers(prev => [...prev, { ...layer, zIndex: prev.length + 1 }]);
+      setSelectedLayerIds([layer.id]);
+      setActiveTab(TabType.EDIT);
+    } catch (err: any) {
+      generateError("Add to Canvas Failed", err.message);
+    }
+  };
+
+  // Swaps the layers a result was made from for the result itself, in one undo step.
+  const replaceSourceLayers = async (item: GeneratedImage) => {
+    const sources = layers.filter(l => item.sourceLayerIds?.includes(l.id));
+    if (sources.length === 0) return;
+
+    try {
+      const img = await loadImage(item.url);
+      const width = img.naturalWidth;
+      const height = img.naturalHeight;
+      // A single source keeps its on-canvas footprint; a merge of several covered the whole canvas
+      const placement = sources.length === 1
+        ? {
+            x: sources[0].x,
+            y: sources[0].y,
+            scale: (sources[0].originalWidth * sources[0].scale) / width,
+            rotation: sources[0].rotation
+          }
+        : fitToCanvas(width, height);
+      const insertAt = layers.findIndex(l => l.id === sources[0].id);
+      const layer = createImageLayer(item.url, width, height, placement, 0);
+
+      recordState(layers);
+      setLayers(prev => {
+        const remaining = prev.filter(l => !item.sourceLayerIds?.includes(l.id));
+        const next = [...remaining.slice(0, insertAt), layer, ...remaining.slice(insertAt)];
+        return next.map((l, idx) => ({ ...l, zIndex: idx + 1 }));
+      });
+      setSelectedLayerIds([layer.id]);
+      setActiveTab(TabType.EDIT);
+    } catch (err: any) {
+      generateError("Replace Failed", err.message);
+    }
+  };
+
+  const canReplaceSources = (item?: GeneratedImage) => {
+    return !!item?.sourceLayerIds?.some(id => layers.some(l => l.id === id));
+  };
+
+  const lastResultEntry = history.find(h => h.url === lastResult);
+
+  // How the document background looks on screen; transparent shows a checkerboard
+  const backgroundStyle: React.CSSProperties = canvasSettings.background.kind === 'color'
+    ? { backgroundColor: canvasSettings.background.color }
+    : canvasSettings.background.kind === 'image'
+      ? { backgroundImage: `url(${canvasSettings.background.url})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+      : { backgroundImage: 'repeating-conic-gradient(#cbd5e1 0% 25%, #f8fafc 0% 50%)', backgroundSize: '16px 16px' };
+
+  // Keeps transform handles the same size on screen at any zoom
+  const handleStyle: React.CSSProperties = { scale: String(1 / viewport.zoom) };
+
+  const selectedLayers = layers.filter(l => selectedLayerIds.includes(l.id));
+  const selectedLayer = selectedLayers.length === 1 ? selectedLayers[0] : undefined;
+  const selectionBounds = selectedLayers.length > 1 ? getSelectionBounds(selectedLayers) : null;
+  const canUngroup = selectedLayers.some(l => l.groupPath?.length);
 
   return (
     <div className="min-h-screen flex flex-col font-sans relative overflow-x-hidden bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 transition-colors duration-300">
-      <Navbar theme={theme} onThemeToggle={toggleTheme} />
+      <Navbar
+        theme={theme}
+        onThemeToggle={toggleTheme}
+        providers={gemini.listImageProviders()}
+        providerId={providerId}
+        onProviderChange={changeProvider}
+      />
 
       <main className={`flex-1 max-w-7xl mx-auto w-full p-4 sm:p-6 lg:p-8 space-y-8 transition-opacity duration-500 ${stage !== 'idle' && stage !== 'finished' ? 'opacity-20 pointer-events-none filter blur-sm' : 'opacity-100'}`}>
         
@@ -524,6 +1504,8 @@ const App: React.FC = () => {
                 <button
                   key={tab.id}
                   onClick={() => setActiveTab(tab.id as TabType)}
+                  // Dragging a history image over the Edit tab opens the canvas to drop it on
+                  onDragEnter={() => tab.id === TabType.EDIT && setActiveTab(TabType.EDIT)}
                   className={`flex items-center gap-2 px-5 py-2.5 rounded-lg text-sm font-semibold transition-all duration-200 ${
                     activeTab === tab.id 
                       ? 'bg-white dark:bg-slate-900 shadow-md text-primary-600 scale-105' 
@@ -578,8 +1560,72 @@ const App: React.FC = () => {
                                </button>
                              </div>
 
+                             {/* Document */}
+                             <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                               <button 
+                                 onClick={() => setShowDocumentSettings(prev => !prev)}
+                                 className={`px-2 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${showDocumentSettings ? 'bg-white dark:bg-slate-700 text-primary-600 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-slate-700'}`}
+                                 title="Document Settings"
+                               >
+                                  {canvasSettings.width}×{canvasSettings.height}
+                               </button>
+                             </div>
+
+                             {/* Grid */}
+                             <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                               <button 
+                                 onClick={() => setGrid(prev => ({ ...prev, enabled: !prev.enabled }))}
+                                 className={`p-1.5 rounded-md transition-all ${grid.enabled ? 'bg-white dark:bg-slate-700 text-primary-600 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-slate-700'}`}
+                                 title={grid.enabled ? 'Hide Grid' : 'Show Grid (layers snap to it)'}
+                               >
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4h16v16H4zM4 10h16M4 15h16M10 4v16M15 4v16" /></svg>
+                               </button>
+                               {grid.enabled && (
+                                 <select
+                                   value={grid.spacing}
+                                   onChange={(e) => setGrid(prev => ({ ...prev, spacing: parseInt(e.target.value) }))}
+                                   className="bg-transparent text-[10px] font-black uppercase tracking-widest text-slate-500 pr-1 outline-none cursor-pointer"
+                                   title="Grid Spacing"
+                                 >
+                                   {GRID_SPACINGS.map(spacing => (
+                                     <option key={spacing} value={spacing}>{spacing}px</option>
+                                   ))}
+                                 </select>
+                               )}
+                             </div>
+
+                             <button 
+                               onClick={() => setShowShortcuts(true)}
+                               className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-800 text-xs font-black text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 transition-all"
+                               title="Keyboard Shortcuts (?)"
+                             >
+                                ?
+                             </button>
+
                              {/* Save/Load */}
                              <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                                <button
+                                  onClick={() => { refreshProjects(); setShowLibrary(true); }}
+                                  className="px-2 py-1 rounded-md text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-slate-700 transition-all"
+                                  title="Project Library"
+                                >
+                                  Projects
+                                </button>
+                                <input
+                                  value={projectName}
+                                  onChange={(e) => setProjectName(e.target.value)}
+                                  onBlur={() => { if (!projectName.trim()) setProjectName(DEFAULT_PROJECT_NAME); }}
+                                  className="w-32 bg-transparent px-2 py-1 text-xs font-bold text-slate-600 dark:text-slate-300 outline-none focus:bg-white dark:focus:bg-slate-700 rounded-md"
+                                  title="Project Name"
+                                />
+                                <span
+                                  className={`text-[10px] font-bold whitespace-nowrap pr-1 ${autosave.status === 'error' ? 'text-red-500' : 'text-slate-400'}`}
+                                  title={autosave.error?.message ?? 'Changes are saved in this browser automatically'}
+                                >
+                                  {autosave.status === 'saving' && 'Saving…'}
+                                  {autosave.status === 'saved' && autosave.savedAt && `Saved ${new Date(autosave.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                                  {autosave.status === 'error' && 'Autosave failed'}
+                                </span>
                                 <label className="cursor-pointer p-1.5 rounded-md text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-slate-700 transition-all" title="Load Project">
                                    <input type="file" accept=".vmix" className="hidden" onChange={handleLoadProject} />
                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
@@ -600,18 +1646,76 @@ const App: React.FC = () => {
                                 Add Asset
                                 <input type="file" className="hidden" accept="image/*" multiple onChange={handleFileChange} />
                              </label>
+
+                             {/* Text & Shapes */}
+                             <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                               <button 
+                                 onClick={addTextLayer}
+                                 className="px-2 py-1 rounded-md text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-slate-700 transition-all"
+                                 title="Add Text"
+                               >
+                                  Text
+                               </button>
+                               {SHAPE_KINDS.map(shape => (
+                                 <button 
+                                   key={shape}
+                                   onClick={() => addShapeLayer(shape)}
+                                   className="p-1.5 rounded-md text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 hover:bg-white dark:hover:bg-slate-700 transition-all"
+                                   title={`Add ${shape.charAt(0).toUpperCase() + shape.slice(1)}`}
+                                 >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round">
+                                      {shape === 'rectangle' && <rect x="4" y="6" width="16" height="12" rx="1" />}
+                                      {shape === 'ellipse' && <ellipse cx="12" cy="12" rx="8" ry="7" />}
+                                      {shape === 'line' && <path d="M4 20L20 4" />}
+                                      {shape === 'arrow' && <path d="M4 20L20 4m0 0h-8m8 0v8" />}
+                                    </svg>
+                                 </button>
+                               ))}
+                             </div>
                          </div>
                       </div>
 
+                      {showDocumentSettings && (
+                        <DocumentSettingsPanel settings={canvasSettings} onChange={setCanvasSettings} onBackgroundFile={setBackgroundImage} />
+                      )}
+
                       <div className="flex flex-col md:flex-row gap-4">
+                        <div
+                          ref={viewportRef}
+                          className={`relative flex-1 min-w-0 h-[600px] max-h-[70vh] overflow-hidden bg-slate-100 dark:bg-slate-900 rounded-xl border-2 border-dashed touch-none transition-colors ${isDragOver ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/10' : 'border-slate-300 dark:border-slate-700'}`}
+                          style={{ cursor: isPanning ? 'grabbing' : isSpaceHeld ? 'grab' : undefined }}
+                          onPointerDownCapture={handleViewportPointerDown}
+                          onDragOver={handleCanvasDragOver}
+                          onDragLeave={() => setIsDragOver(false)}
+                          onDrop={handleCanvasDrop}
+                          onPointerMove={handleViewportPointerMove}
+                          onPointerUp={handleViewportPointerUp}
+                          onPointerCancel={handleViewportPointerUp}
+                        >
                         <div 
                           ref={canvasRef}
-                          className="relative w-full aspect-square bg-slate-100 dark:bg-slate-900 rounded-xl overflow-hidden border-2 border-dashed border-slate-300 dark:border-slate-700 group touch-none"
+                          className="absolute top-0 left-0 overflow-hidden shadow-lg group touch-none"
+                          style={{
+                            width: canvasSettings.width,
+                            height: canvasSettings.height,
+                            transform: `translate(${viewport.panX}px, ${viewport.panY}px) scale(${viewport.zoom})`,
+                            transformOrigin: '0 0',
+                            ...backgroundStyle
+                          }}
+                          onPointerDown={handleCanvasPointerDown}
                           onPointerMove={handleCanvasPointerMove}
                           onPointerUp={handleCanvasPointerUp}
                           onPointerLeave={handleCanvasPointerUp}
                         >
-                           <div className="absolute inset-0 opacity-10 pointer-events-none" style={{ backgroundImage: 'radial-gradient(circle, #888 1px, transparent 1px)', backgroundSize: '20px 20px' }}></div>
+                           {/* Dots sit on grid intersections, so the grid and its snap lines line up */}
+                           <div
+                             className={`absolute inset-0 pointer-events-none transition-opacity ${grid.enabled ? 'opacity-40' : 'opacity-10'}`}
+                             style={{
+                               backgroundImage: `radial-gradient(circle, #888 ${grid.enabled ? 1.5 : 1}px, transparent 1px)`,
+                               backgroundSize: `${grid.spacing}px ${grid.spacing}px`,
+                               backgroundPosition: `-${grid.spacing / 2}px -${grid.spacing / 2}px`
+                             }}
+                           ></div>
                            
                            {layers.length === 0 && (
                              <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-400 pointer-events-none">
@@ -620,35 +1724,107 @@ const App: React.FC = () => {
                              </div>
                            )}
 
-                           {layers.map(layer => (
+                           {layers.filter(layer => !layer.hidden).map(layer => (
                              <div
                                key={layer.id}
                                onPointerDown={(e) => handleLayerPointerDown(e, layer)}
+                               onDoubleClick={() => startTextEditing(layer)}
                                style={{
-                                 transform: `translate(${layer.x}px, ${layer.y}px) scale(${layer.scale}) rotate(${layer.rotation}deg)`,
-                                 width: layer.originalWidth,
-                                 height: layer.originalHeight,
+                                 left: layer.x,
+                                 top: layer.y,
+                                 width: layer.originalWidth * layer.scale,
+                                 height: layer.originalHeight * layer.scale,
+                                 transform: `rotate(${layer.rotation}deg)`,
                                  position: 'absolute',
                                  zIndex: layer.zIndex,
                                  cursor: 'grab',
-                                 transformOrigin: 'top left',
+                                 transformOrigin: 'center',
+                                 mixBlendMode: layer.blendMode ?? 'normal',
+                                 // Locked layers let clicks fall through to whatever is underneath
+                                 pointerEvents: layer.locked ? 'none' : undefined,
                                }}
                                className={`transition-shadow touch-none select-none`}
                              >
-                               <img 
-                                 src={layer.url} 
-                                 alt="layer" 
-                                 className="w-full h-full object-contain pointer-events-none select-none"
-                                 draggable={false}
-                               />
+                               {/* Crop, flip and adjustments are previewed with CSS; renderLayerPixels mirrors them on export */}
+                               <div
+                                 className="absolute inset-0 overflow-hidden pointer-events-none"
+                                 style={{
+                                   transform: layer.flipX || layer.flipY ? `scale(${layer.flipX ? -1 : 1}, ${layer.flipY ? -1 : 1})` : undefined,
+                                   filter: [
+                                     getAdjustmentFilter(layer.adjustments, layer.scale),
+                                     layer.adjustments?.sharpen ? `url(#sharpen-${layer.id})` : ''
+                                   ].filter(f => f && f !== 'none').join(' ') || undefined
+                                 }}
+                               >
+                                 {layer.adjustments?.sharpen ? (
+                                   <svg className="absolute w-0 h-0">
+                                     <filter id={`sharpen-${layer.id}`}>
+                                       <feConvolveMatrix order="3" kernelMatrix={getSharpenKernel(layer.adjustments.sharpen).join(' ')} preserveAlpha="true" />
+                                     </filter>
+                                   </svg>
+                                 ) : null}
+                                 {(() => {
+                                   const crop = (layer.kind === 'image' && layer.crop) || FULL_CROP;
+                                   return (
+                                     <img 
+                                       src={getLayerSource(layer)} 
+                                       alt="layer" 
+                                       className="absolute max-w-none object-fill pointer-events-none select-none"
+                                       style={{
+                                         left: `${(-crop.x / crop.width) * 100}%`,
+                                         top: `${(-crop.y / crop.height) * 100}%`,
+                                         width: `${100 / crop.width}%`,
+                                         height: `${100 / crop.height}%`,
+                                         opacity: editingTextId === layer.id ? 0 : layer.opacity ?? 1
+                                       }}
+                                       draggable={false}
+                                     />
+                                   );
+                                 })()}
+                               </div>
+
+                               {/* In-place text editing; the SVG takes over again on blur */}
+                               {layer.kind === 'text' && editingTextId === layer.id && (
+                                 <textarea
+                                   autoFocus
+                                   value={layer.text}
+                                   onChange={(e) => updateTextLayer(layer.id, { text: e.target.value }, false)}
+                                   onBlur={() => setEditingTextId(null)}
+                                   onKeyDown={(e) => { if (e.key === 'Escape') setEditingTextId(null); }}
+                                   onPointerDown={(e) => e.stopPropagation()}
+                                   className="absolute inset-0 w-full h-full bg-transparent resize-none overflow-hidden outline-dashed outline-1 outline-primary-500 cursor-text"
+                                   style={{
+                                     fontFamily: layer.fontFamily,
+                                     fontSize: layer.fontSize * layer.scale,
+                                     fontWeight: layer.fontWeight,
+                                     color: layer.color,
+                                     textAlign: layer.align,
+                                     lineHeight: LINE_HEIGHT,
+                                     padding: (TEXT_PADDING + layer.strokeWidth) * layer.scale,
+                                     WebkitTextStroke: layer.strokeWidth > 0 ? `${layer.strokeWidth * layer.scale}px ${layer.strokeColor}` : undefined,
+                                     opacity: layer.opacity ?? 1
+                                   }}
+                                 />
+                               )}
                                
-                               {selectedLayerId === layer.id && (
+                               {selectedLayerIds.includes(layer.id) && (
+                                 <div className={`absolute inset-0 border-2 border-primary-500 pointer-events-none ${selectedLayer ? '' : 'border-dashed opacity-60'}`}></div>
+                               )}
+                               {selectedLayer?.id === layer.id && !layer.locked && (
                                  <>
-                                   <div className="absolute inset-0 border-2 border-primary-500 pointer-events-none"></div>
+                                   {/* Rotation Handle (Top Center) */}
+                                   <div
+                                     onPointerDown={(e) => handleHandlePointerDown(e, 'rotate')}
+                                     style={handleStyle}
+                                     className="absolute -top-10 left-1/2 -translate-x-1/2 w-8 h-8 bg-white dark:bg-slate-800 text-primary-600 rounded-full shadow-lg border-2 border-primary-500 cursor-grab touch-none flex items-center justify-center pointer-events-auto z-50 hover:scale-110 transition-transform"
+                                     title="Rotate (hold Shift to snap to 15°)"
+                                   >
+                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                                   </div>
                                    {/* Resize Handle (Bottom Right) */}
                                    <div
-                                     onPointerDown={(e) => handleResizePointerDown(e, layer)}
-                                     style={{ transform: `scale(${1 / layer.scale})` }}
+                                     onPointerDown={(e) => handleHandlePointerDown(e, 'resize')}
+                                     style={handleStyle}
                                      className="absolute -bottom-4 -right-4 w-10 h-10 bg-primary-500 rounded-full shadow-lg border-2 border-white cursor-nwse-resize touch-none flex items-center justify-center pointer-events-auto z-50 hover:scale-110 transition-transform"
                                    >
                                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 16v4h4m12-12v-4h-4" /></svg>
@@ -657,13 +1833,77 @@ const App: React.FC = () => {
                                )}
                              </div>
                            ))}
+
+                           {/* Combined bounding box for multi-selection */}
+                           {selectionBounds && (
+                             <div
+                               className="absolute border-2 border-primary-500 pointer-events-none"
+                               style={{
+                                 left: selectionBounds.minX,
+                                 top: selectionBounds.minY,
+                                 width: selectionBounds.maxX - selectionBounds.minX,
+                                 height: selectionBounds.maxY - selectionBounds.minY,
+                                 zIndex: layers.length + 1
+                               }}
+                             >
+                               <div
+                                 onPointerDown={(e) => handleHandlePointerDown(e, 'rotate')}
+                                     style={handleStyle}
+                                 className="absolute -top-10 left-1/2 -translate-x-1/2 w-8 h-8 bg-white dark:bg-slate-800 text-primary-600 rounded-full shadow-lg border-2 border-primary-500 cursor-grab touch-none flex items-center justify-center pointer-events-auto hover:scale-110 transition-transform"
+                                 title="Rotate Selection (hold Shift to snap to 15°)"
+                               >
+                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                               </div>
+                               <div
+                                 onPointerDown={(e) => handleHandlePointerDown(e, 'resize')}
+                                     style={handleStyle}
+                                 className="absolute -bottom-4 -right-4 w-10 h-10 bg-primary-500 rounded-full shadow-lg border-2 border-white cursor-nwse-resize touch-none flex items-center justify-center pointer-events-auto hover:scale-110 transition-transform"
+                                 title="Scale Selection"
+                               >
+                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 16v4h4m12-12v-4h-4" /></svg>
+                               </div>
+                             </div>
+                           )}
+
+                           {/* Alignment guides while dragging */}
+                           {guides?.x.map(x => (
+                             <div key={`gx-${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: x, zIndex: layers.length + 2 }}></div>
+                           ))}
+                           {guides?.y.map(y => (
+                             <div key={`gy-${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: y, zIndex: layers.length + 2 }}></div>
+                           ))}
+
+                           {marquee && (
+                             <div
+                               className="absolute border border-primary-500 bg-primary-500/10 pointer-events-none"
+                               style={{
+                                 left: marquee.minX,
+                                 top: marquee.minY,
+                                 width: marquee.maxX - marquee.minX,
+                                 height: marquee.maxY - marquee.minY,
+                                 zIndex: layers.length + 2
+                               }}
+                             ></div>
+                           )}
+                        </div>
+
+                        {/* Zoom Controls */}
+                        <div className="absolute bottom-3 right-3 flex items-center gap-1 bg-white/90 dark:bg-slate-800/90 p-1 rounded-lg shadow-lg" onPointerDown={(e) => e.stopPropagation()}>
+                          <button onClick={() => zoomFromCenter(1 / 1.25)} className="px-2 py-0.5 rounded-md text-xs font-black text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700" title="Zoom Out">−</button>
+                          <span className="w-12 text-center text-[10px] font-black tracking-widest text-slate-500">{Math.round(viewport.zoom * 100)}%</span>
+                          <button onClick={() => zoomFromCenter(1.25)} className="px-2 py-0.5 rounded-md text-xs font-black text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700" title="Zoom In">+</button>
+                          <button onClick={fitToScreen} className="px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700" title="Fit to Screen">Fit</button>
+                          <button onClick={zoomToActualSize} className="px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700" title="Actual Size">100%</button>
+                        </div>
                         </div>
 
                         {/* Extracted Layer Panel Component */}
                         <LayerPanel 
                            layers={layers}
-                           selectedLayerId={selectedLayerId}
-                           onSelect={setSelectedLayerId}
+                           selectedLayerIds={selectedLayerIds}
+                           onSelect={(layer, additive) => selectLayer(layer, additive)}
+                           onUpdate={commitLayerUpdate}
+                           onAdjust={updateLayer}
                            onReorder={reorderLayer}
                         />
                       </div>
@@ -678,8 +1918,9 @@ const App: React.FC = () => {
                                max="2" 
                                step="0.05" 
                                value={selectedLayer.scale}
+                               disabled={selectedLayer.locked}
                                onChange={(e) => updateLayer(selectedLayer.id, { scale: parseFloat(e.target.value) })}
-                               className="w-24 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                               className="w-24 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600 disabled:opacity-30"
                              />
                            </div>
                            <div className="flex items-center gap-3">
@@ -690,25 +1931,341 @@ const App: React.FC = () => {
                                max="180" 
                                step="5" 
                                value={selectedLayer.rotation}
+                               disabled={selectedLayer.locked}
                                onChange={(e) => updateLayer(selectedLayer.id, { rotation: parseInt(e.target.value) })}
+                               className="w-24 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600 disabled:opacity-30"
+                             />
+                           </div>
+                           <div className="flex items-center gap-3">
+                             <span className="text-xs font-bold text-slate-500 uppercase">Opacity</span>
+                             <input 
+                               type="range" 
+                               min="0" 
+                               max="1" 
+                               step="0.05" 
+                               value={selectedLayer.opacity ?? 1}
+                               onPointerDown={() => recordState(layers)}
+                               onChange={(e) => updateLayer(selectedLayer.id, { opacity: parseFloat(e.target.value) })}
                                className="w-24 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600"
                              />
                            </div>
+                           <div className="flex items-center gap-3">
+                             <span className="text-xs font-bold text-slate-500 uppercase">Blend</span>
+                             <select
+                               value={selectedLayer.blendMode ?? 'normal'}
+                               onChange={(e) => commitLayerUpdate(selectedLayer.id, { blendMode: e.target.value as BlendMode })}
+                               className="bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none cursor-pointer"
+                             >
+                               {BLEND_MODES.map(mode => (
+                                 <option key={mode} value={mode}>{mode}</option>
+                               ))}
+                             </select>
+                           </div>
                            <div className="flex gap-2">
                              <button 
-                                onClick={() => centerLayer(selectedLayer.id)}
+                                onClick={() => commitLayerUpdate(selectedLayer.id, { hidden: !selectedLayer.hidden })}
+                                className={`p-1.5 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/20 ${selectedLayer.hidden ? 'text-slate-400' : 'text-primary-600'}`}
+                                title={selectedLayer.hidden ? 'Show Layer' : 'Hide Layer'}
+                             >
+                                {selectedLayer.hidden ? (
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" /></svg>
+                                ) : (
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
+                                )}
+                             </button>
+                             <button 
+                                onClick={() => commitLayerUpdate(selectedLayer.id, { locked: !selectedLayer.locked })}
+                                className={`p-1.5 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/20 ${selectedLayer.locked ? 'text-amber-500' : 'text-primary-600'}`}
+                                title={selectedLayer.locked ? 'Unlock Layer' : 'Lock Layer'}
+                             >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={selectedLayer.locked ? 'M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z' : 'M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z'} /></svg>
+                             </button>
+                             <button 
+                                onClick={() => centerSelection([selectedLayer.id])}
+                                disabled={selectedLayer.locked}
+                                className="p-1.5 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg disabled:opacity-30" 
+                                title="Center on Canvas"
+                             >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" /></svg>
+                             </button>
+                             <button 
+                                onClick={() => setShowAdjustments(prev => !prev)}
+                                className={`px-2 py-1 text-[10px] font-black uppercase tracking-widest rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/20 ${showAdjustments || hasLayerEdits(selectedLayer) ? 'text-primary-600' : 'text-slate-500'}`}
+                                title="Crop, Flip & Adjust"
+                             >
+                                Adjust
+                             </button>
+                             <button 
+                                onClick={() => setMaskTarget({ kind: 'layer', layerId: selectedLayer.id })}
+                                className="p-1.5 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg" 
+                                title="Inpaint Region"
+                             >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" /></svg>
+                             </button>
+                             {canUngroup && (
+                               <button onClick={ungroupSelection} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg" title="Ungroup">
+                                 Ungroup
+                               </button>
+                             )}
+                             <div className="w-px h-6 bg-slate-200 dark:bg-slate-700 mx-1"></div>
+                             <button onClick={() => removeLayers([selectedLayer.id])} disabled={selectedLayer.locked} className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg disabled:opacity-30" title="Remove Layer">
+                               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                             </button>
+                           </div>
+                        </div>
+                      )}
+
+                      {selectedLayer && showAdjustments && (
+                        <LayerAdjustPanel
+                          layer={selectedLayer}
+                          onUpdate={(updates) => commitLayerUpdate(selectedLayer.id, updates)}
+                          onAdjust={(updates) => updateLayer(selectedLayer.id, updates)}
+                        />
+                      )}
+
+                      {selectedLayer?.kind === 'text' && (
+                        <div className="p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg animate-fadeIn flex flex-wrap gap-4 items-center">
+                           <button 
+                              onClick={() => startTextEditing(selectedLayer)}
+                              className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg"
+                           >
+                              Edit Text
+                           </button>
+                           <select
+                             value={selectedLayer.fontFamily}
+                             onChange={(e) => updateTextLayer(selectedLayer.id, { fontFamily: e.target.value })}
+                             className="bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none cursor-pointer"
+                             title="Font"
+                           >
+                             {FONT_FAMILIES.map(font => (
+                               <option key={font.value} value={font.value}>{font.label}</option>
+                             ))}
+                           </select>
+                           <div className="flex items-center gap-2">
+                             <span className="text-xs font-bold text-slate-500 uppercase">Size</span>
+                             <input 
+                               type="number" 
+                               min="8" 
+                               max="400" 
+                               value={selectedLayer.fontSize}
+                               onFocus={() => recordState(layers)}
+                               onChange={(e) => updateTextLayer(selectedLayer.id, { fontSize: Math.max(8, parseInt(e.target.value) || 8) }, false)}
+                               className="w-16 bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs outline-none"
+                             />
+                           </div>
+                           <select
+                             value={selectedLayer.fontWeight}
+                             onChange={(e) => updateTextLayer(selectedLayer.id, { fontWeight: parseInt(e.target.value) })}
+                             className="bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none cursor-pointer"
+                             title="Weight"
+                           >
+                             <option value={400}>Regular</option>
+                             <option value={600}>Semibold</option>
+                             <option value={800}>Heavy</option>
+                           </select>
+                           <input 
+                             type="color" 
+                             value={selectedLayer.color}
+                             onFocus={() => recordState(layers)}
+                             onChange={(e) => updateTextLayer(selectedLayer.id, { color: e.target.value }, false)}
+                             className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                             title="Text Color"
+                           />
+                           <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+                             {(['left', 'center', 'right'] as TextAlign[]).map(align => (
+                               <button
+                                 key={align}
+                                 onClick={() => updateTextLayer(selectedLayer.id, { align })}
+                                 className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${selectedLayer.align === align ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`}
+                               >
+                                 {align}
+                               </button>
+                             ))}
+                           </div>
+                           <div className="flex items-center gap-2">
+                             <span className="text-xs font-bold text-slate-500 uppercase">Stroke</span>
+                             <input 
+                               type="color" 
+                               value={selectedLayer.strokeColor}
+                               onFocus={() => recordState(layers)}
+                               onChange={(e) => updateTextLayer(selectedLayer.id, { strokeColor: e.target.value }, false)}
+                               className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                               title="Stroke Color"
+                             />
+                             <input 
+                               type="number" 
+                               min="0" 
+                               max="20" 
+                               value={selectedLayer.strokeWidth}
+                               onFocus={() => recordState(layers)}
+                               onChange={(e) => updateTextLayer(selectedLayer.id, { strokeWidth: Math.max(0, parseInt(e.target.value) || 0) }, false)}
+                               className="w-14 bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs outline-none"
+                               title="Stroke Width"
+                             />
+                           </div>
+                        </div>
+                      )}
+
+                      {selectedLayer?.kind === 'shape' && (
+                        <div className="p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg animate-fadeIn flex flex-wrap gap-4 items-center">
+                           <select
+                             value={selectedLayer.shape}
+                             onChange={(e) => commitLayerUpdate(selectedLayer.id, { shape: e.target.value as ShapeKind })}
+                             className="bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none cursor-pointer"
+                             title="Shape"
+                           >
+                             {SHAPE_KINDS.map(shape => (
+                               <option key={shape} value={shape}>{shape}</option>
+                             ))}
+                           </select>
+                           {selectedLayer.shape !== 'line' && selectedLayer.shape !== 'arrow' && (
+                             <div className="flex items-center gap-2">
+                               <label className="flex items-center gap-1 text-xs font-bold text-slate-500 uppercase cursor-pointer">
+                                 <input 
+                                   type="checkbox" 
+                                   checked={selectedLayer.fill !== null}
+                                   onChange={(e) => commitLayerUpdate(selectedLayer.id, { fill: e.target.checked ? '#0ea5e9' : null })}
+                                   className="accent-primary-600"
+                                 />
+                                 Fill
+                               </label>
+                               {selectedLayer.fill !== null && (
+                                 <input 
+                                   type="color" 
+                                   value={selectedLayer.fill}
+                                   onFocus={() => recordState(layers)}
+                                   onChange={(e) => updateLayer(selectedLayer.id, { fill: e.target.value })}
+                                   className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                                   title="Fill Color"
+                                 />
+                               )}
+                             </div>
+                           )}
+                           <div className="flex items-center gap-2">
+                             <span className="text-xs font-bold text-slate-500 uppercase">Stroke</span>
+                             <input 
+                               type="color" 
+                               value={selectedLayer.stroke}
+                               onFocus={() => recordState(layers)}
+                               onChange={(e) => updateLayer(selectedLayer.id, { stroke: e.target.value })}
+                               className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                               title="Stroke Color"
+                             />
+                             <input 
+                               type="number" 
+                               min="0" 
+                               max="40" 
+                               value={selectedLayer.strokeWidth}
+                               onFocus={() => recordState(layers)}
+                               onChange={(e) => updateLayer(selectedLayer.id, { strokeWidth: Math.max(0, parseInt(e.target.value) || 0) })}
+                               className="w-14 bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs outline-none"
+                               title="Stroke Width"
+                             />
+                           </div>
+                        </div>
+                      )}
+
+                      {selectedLayers.length > 1 && (
+                        <div className="p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg animate-fadeIn flex flex-wrap gap-4 items-center justify-between">
+                           <span className="text-xs font-bold text-slate-500 uppercase">{selectedLayers.length} Layers Selected</span>
+                           <div className="flex gap-2 items-center">
+                             <button onClick={groupSelection} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg" title="Group Selection">
+                               Group
+                             </button>
+                             {canUngroup && (
+                               <button onClick={ungroupSelection} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg" title="Ungroup">
+                                 Ungroup
+                               </button>
+                             )}
+                             <button 
+                                onClick={() => centerSelection(selectedLayerIds)}
                                 className="p-1.5 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg" 
                                 title="Center on Canvas"
                              >
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" /></svg>
                              </button>
                              <div className="w-px h-6 bg-slate-200 dark:bg-slate-700 mx-1"></div>
-                             <button onClick={() => removeLayer(selectedLayer.id)} className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg" title="Remove Layer">
+                             <button
+                               onClick={() => removeLayers(selectedLayers.filter(l => !l.locked).map(l => l.id))}
+                               disabled={selectedLayers.every(l => l.locked)}
+                               className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg disabled:opacity-30"
+                               title="Remove Selected Layers"
+                             >
                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
                              </button>
                            </div>
                         </div>
                       )}
+
+                      {layers.length > 0 && (
+                        <div className="flex items-center justify-between gap-4">
+                          <span className="text-xs font-bold text-slate-500 uppercase">Send to Model</span>
+                          <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                            {([
+                              { id: 'layers', label: 'Individual Layers', title: 'Each layer at original resolution, plus the canvas as a layout reference' },
+                              { id: 'flatten', label: 'Flattened Canvas', title: `A single ${canvasSettings.exportLongEdge}px composite of the canvas` }
+                            ] as { id: MergeMode; label: string; title: string }[]).map(option => (
+                              <button
+                                key={option.id}
+                                onClick={() => setMergeMode(option.id)}
+                                title={option.title}
+                                className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${mergeMode === option.id ? 'bg-white dark:bg-slate-700 text-primary-600 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {activeTab === TabType.GENERATE && (
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <label className="block text-sm font-bold text-slate-700 dark:text-slate-300">Aspect Ratio</label>
+                        <div className="flex flex-wrap gap-2">
+                          {ASPECT_RATIOS.map(ratio => (
+                            <button
+                              key={ratio}
+                              onClick={() => setGenerationSettings(prev => ({ ...prev, aspectRatio: ratio }))}
+                              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border-2 transition-all ${generationSettings.aspectRatio === ratio ? 'border-primary-600 bg-primary-600 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-500 hover:border-primary-500'}`}
+                            >
+                              {ratio}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-6">
+                        <div className="space-y-2">
+                          <label className="block text-sm font-bold text-slate-700 dark:text-slate-300">Resolution</label>
+                          <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                            {IMAGE_SIZES.map(size => (
+                              <button
+                                key={size}
+                                onClick={() => setGenerationSettings(prev => ({ ...prev, imageSize: size }))}
+                                className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${generationSettings.imageSize === size ? 'bg-white dark:bg-slate-700 text-primary-600 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+                              >
+                                {size}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <label className="block text-sm font-bold text-slate-700 dark:text-slate-300">Candidates</label>
+                          <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                            {Array.from({ length: MAX_CANDIDATES }, (_, idx) => idx + 1).map(count => (
+                              <button
+                                key={count}
+                                onClick={() => setGenerationSettings(prev => ({ ...prev, candidateCount: count }))}
+                                className={`w-8 py-1 rounded-md text-[10px] font-black transition-all ${generationSettings.candidateCount === count ? 'bg-white dark:bg-slate-700 text-primary-600 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+                              >
+                                {count}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
                     </div>
                   )}
 
@@ -749,7 +2306,12 @@ const App: React.FC = () => {
               <div className="space-y-6 animate-fadeIn">
                 <div className="glass p-6 rounded-3xl border border-slate-200 dark:border-slate-800 h-full flex flex-col min-h-[450px] shadow-2xl overflow-hidden">
                    <h2 className="text-xl font-bold flex items-center justify-between mb-6">
-                      <div className="flex items-center gap-2">Final Output</div>
+                      <div className="flex items-center gap-2">
+                        Final Output
+                        {stage === 'idle' && (progress.outcome === 'cancelled' || progress.outcome === 'failed') && (
+                          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Last run {progress.outcome}</span>
+                        )}
+                      </div>
                       {lastResult && <a href={lastResult} download="image.png" className="text-xs uppercase font-bold text-primary-600">Download</a>}
                    </h2>
 
@@ -761,12 +2323,52 @@ const App: React.FC = () => {
                       )}
                    </div>
                    
+                   {candidates.length > 1 && (
+                      <div className="mt-4 space-y-2 animate-fadeIn">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Choose a candidate</p>
+                        <div className="grid grid-cols-4 gap-2">
+                          {candidates.map((candidate, idx) => (
+                            <button
+                              key={idx}
+                              onClick={() => setLastResult(candidate)}
+                              className={`aspect-square rounded-xl overflow-hidden bg-slate-100 dark:bg-slate-900 border-2 transition-all ${lastResult === candidate ? 'border-primary-500 ring-2 ring-primary-500/30' : 'border-transparent hover:border-slate-300 dark:hover:border-slate-600'}`}
+                            >
+                              <img src={candidate} alt={`Candidate ${idx + 1}`} className="w-full h-full object-cover" />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                   )}
+
                    {lastResult && (
                       <div className="mt-8 space-y-6 animate-fadeIn">
-                        <div className="grid grid-cols-2 gap-4">
+                        <div className="grid grid-cols-3 gap-4">
+                           <button onClick={() => setMaskTarget({ kind: 'result' })} className="py-4 bg-slate-100 dark:bg-slate-800 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-primary-500 hover:text-white transition-colors">Inpaint</button>
                            <button onClick={() => handleDeepCleanStart()} className="py-4 bg-slate-100 dark:bg-slate-800 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-primary-500 hover:text-white transition-colors">Strip Clutter</button>
                            <button onClick={() => handle3DStart()} className="py-4 bg-slate-100 dark:bg-slate-800 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-indigo-500 hover:text-white transition-colors">Make 3D</button>
                         </div>
+                        {activeThread && (
+                          <RefinementPanel
+                            thread={activeThread}
+                            value={refinePrompt}
+                            isImproving={isImproving}
+                            onChange={setRefinePrompt}
+                            onImprove={() => handleImprovePrompt('refine')}
+                            onSend={runRefinement}
+                            onJump={jumpToRefinementStep}
+                          />
+                        )}
+                        <div className="grid grid-cols-2 gap-4">
+                           <button onClick={() => addResultToCanvas(lastResult)} className="py-3 border-2 border-slate-200 dark:border-slate-700 rounded-xl font-black uppercase text-[10px] tracking-widest text-slate-600 dark:text-slate-300 hover:border-primary-500 hover:text-primary-600 transition-colors">Add to Canvas</button>
+                           <button
+                             onClick={() => lastResultEntry && replaceSourceLayers(lastResultEntry)}
+                             disabled={!canReplaceSources(lastResultEntry)}
+                             title="Swap the layers this result was made from for the result"
+                             className="py-3 border-2 border-slate-200 dark:border-slate-700 rounded-xl font-black uppercase text-[10px] tracking-widest text-slate-600 dark:text-slate-300 hover:border-primary-500 hover:text-primary-600 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:border-slate-200 dark:disabled:hover:border-slate-700 disabled:hover:text-slate-600 transition-colors"
+                           >
+                             Replace Source Layers
+                           </button>
+                        </div>
                       </div>
                    )}
                 </div>
@@ -775,28 +2377,20 @@ const App: React.FC = () => {
             
             {/* History Tab */}
             {activeTab === TabType.HISTORY && (
-               <div className="lg:col-span-2 space-y-6 animate-fadeIn">
-                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-                   {history.map((item) => (
-                     <div 
-                       key={item.id} 
-                       className="glass p-3 rounded-3xl border border-slate-200 dark:border-slate-800 group relative cursor-pointer overflow-hidden shadow-lg hover:shadow-2xl transition-all"
-                       onClick={() => {
-                         setLastResult(item.url);
-                         setActiveTab(TabType.EDIT);
-                       }}
-                     >
-                       <div className="aspect-square rounded-2xl overflow-hidden bg-slate-100 dark:bg-slate-900 shadow-inner">
-                         <img src={item.url} alt={item.prompt} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
-                       </div>
-                       <div className="mt-3 px-1">
-                         <p className="text-[10px] font-black uppercase tracking-widest text-primary-500">{item.type}</p>
-                         <p className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate mt-1">{item.prompt}</p>
-                       </div>
-                     </div>
-                   ))}
-                 </div>
-               </div>
+               <HistoryPanel
+                 history={history}
+                 storage={storageUsage}
+                 onOpen={(item) => {
+                   setLastResult(item.url);
+                   setCandidates([]);
+                   setActiveTab(TabType.EDIT);
+                 }}
+                 onAddToCanvas={addResultToCanvas}
+                 onReplaceSources={replaceSourceLayers}
+                 canReplaceSources={canReplaceSources}
+                 onToggleFavorite={toggleFavorite}
+                 onDelete={deleteHistoryEntries}
+               />
             )}
           </div>
         </div>
@@ -811,29 +2405,47 @@ const App: React.FC = () => {
             <div className="w-24 h-24 mx-auto border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
             <h2 className="text-2xl font-black uppercase tracking-widest text-slate-800 dark:text-white">Analyzing Context</h2>
             <p className="text-sm font-medium text-slate-500">Gemini is brainstorming 5 creative directions...</p>
+            <button onClick={cancelWorkflow} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-red-500 transition-colors">Cancel</button>
           </div>
         </div>
       )}
 
-      {/* 2. Suggestion Selection Grid */}
-      {stage === 'suggesting' && (
+      {/* Mask Editor */}
+      {maskTarget && (
+        <MaskEditor
+          imageUrl={maskTarget.kind === 'layer' ? (layers.filter(l => l.id === maskTarget.layerId).map(getLayerSource)[0] || '') : (lastResult || '')}
+          targetLabel={maskTarget.kind === 'layer' ? 'the selected layer' : 'the current result'}
+          onCancel={() => setMaskTarget(null)}
+          onSubmit={runInpaint}
+          onError={(message) => {
+            setMaskTarget(null);
+            generateError("Inpaint Unavailable", message);
+          }}
+        />
+      )}
+
+      {/* 2. Suggestion Selection Grid + Plan Review */}
+      {(stage === 'suggesting' || stage === 'planning') && (
         <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/50 backdrop-blur-lg p-4 animate-fadeIn">
           <div className="bg-white dark:bg-slate-900 w-full max-w-5xl rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh] overflow-hidden">
             <div className="p-8 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
               <div>
-                <h2 className="text-2xl font-black uppercase tracking-widest text-slate-800 dark:text-white">Select Direction</h2>
-                <p className="text-sm text-slate-500 mt-1">Choose the best execution plan for your vision.</p>
+                <h2 className="text-2xl font-black uppercase tracking-widest text-slate-800 dark:text-white">{stage === 'planning' ? 'Review Plan' : 'Select Direction'}</h2>
+                <p className="text-sm text-slate-500 mt-1">
+                  {stage === 'planning' ? 'Edit the plan before it is sent to the image model.' : 'Choose the best execution plan for your vision.'}
+                </p>
               </div>
-              <button onClick={() => setStage('idle')} className="text-slate-400 hover:text-red-500 transition-colors">
+              <button onClick={cancelWorkflow} className="text-slate-400 hover:text-red-500 transition-colors">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
               </button>
             </div>
             
-            <div className="p-8 overflow-y-auto grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <div className={`flex-1 min-h-0 flex flex-col ${stage === 'planning' ? 'lg:flex-row' : ''}`}>
+            <div className={`p-8 overflow-y-auto grid grid-cols-1 gap-6 ${stage === 'planning' ? 'lg:w-1/2' : 'md:grid-cols-2 lg:grid-cols-3'}`}>
               {/* Original Idea */}
               <div 
-                onClick={() => executeTask(prompt || 'Original Request')}
-                className="group relative p-6 rounded-2xl border-2 border-slate-200 dark:border-slate-700 hover:border-primary-500 cursor-pointer transition-all hover:bg-primary-50 dark:hover:bg-primary-900/10"
+                onClick={() => handleSuggestionSelect(prompt || 'Original Request')}
+                className={`group relative p-6 rounded-2xl border-2 cursor-pointer transition-all hover:bg-primary-50 dark:hover:bg-primary-900/10 ${selectedSuggestion === (prompt || 'Original Request') && stage === 'planning' ? 'border-primary-500' : 'border-slate-200 dark:border-slate-700 hover:border-primary-500'}`}
               >
                 <div className="absolute top-4 right-4 w-4 h-4 rounded-full border-2 border-slate-300 group-hover:bg-primary-500 group-hover:border-primary-500 transition-colors"></div>
                 <h3 className="font-bold text-lg mb-2 text-slate-800 dark:text-white">Original Idea</h3>
@@ -844,8 +2456,8 @@ const App: React.FC = () => {
               {suggestions.map((sug, idx) => (
                 <div 
                   key={idx}
-                  onClick={() => executeTask(sug)}
-                  className="group relative p-6 rounded-2xl border-2 border-indigo-100 dark:border-slate-700 hover:border-indigo-500 cursor-pointer transition-all hover:bg-indigo-50 dark:hover:bg-indigo-900/10 bg-white dark:bg-slate-800"
+                  onClick={() => handleSuggestionSelect(sug)}
+                  className={`group relative p-6 rounded-2xl border-2 cursor-pointer transition-all hover:bg-indigo-50 dark:hover:bg-indigo-900/10 bg-white dark:bg-slate-800 ${selectedSuggestion === sug && stage === 'planning' ? 'border-indigo-500' : 'border-indigo-100 dark:border-slate-700 hover:border-indigo-500'}`}
                 >
                   <div className="absolute top-0 left-0 bg-indigo-500 text-white text-[10px] font-bold px-2 py-1 rounded-br-lg uppercase tracking-wider">Option {idx + 1}</div>
                   <h3 className="font-bold text-lg mt-4 mb-2 text-slate-800 dark:text-white">AI Suggestion</h3>
@@ -853,41 +2465,91 @@ const App: React.FC = () => {
                 </div>
               ))}
             </div>
+
+            {/* Editable Plan */}
+            {stage === 'planning' && (
+              <div className="p-8 lg:w-1/2 border-t lg:border-t-0 lg:border-l border-slate-200 dark:border-slate-800 flex flex-col gap-4 min-h-[320px]">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-black uppercase tracking-widest text-slate-700 dark:text-slate-300">Execution Plan</h3>
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {activeTaskType === 'edit' ? `${layers.length} source images` : activeTaskType === 'clean' ? 'Deep clean analysis' : '3D transform plan'}
+                  </span>
+                </div>
+                {isPlanning ? (
+                  <div className="flex-1 flex flex-col items-center justify-center gap-3 text-slate-400">
+                    <div className="w-10 h-10 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
+                    <p className="text-xs font-bold uppercase tracking-widest">Analyzing source images...</p>
+                  </div>
+                ) : (
+                  <textarea
+                    value={plan}
+                    onChange={(e) => setPlan(e.target.value)}
+                    className="flex-1 w-full bg-slate-50 dark:bg-slate-950 border-2 border-slate-200 dark:border-slate-800 rounded-2xl p-4 text-sm font-medium focus:ring-4 focus:ring-primary-500/10 focus:border-primary-500 transition-all min-h-[240px] resize-none shadow-inner"
+                  />
+                )}
+                <button
+                  onClick={() => executeTask(plan)}
+                  disabled={isPlanning || !plan.trim()}
+                  className="w-full bg-gradient-to-r from-primary-600 to-indigo-600 hover:from-primary-700 hover:to-indigo-700 text-white font-black uppercase tracking-widest py-4 px-6 rounded-2xl shadow-lg shadow-primary-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  Execute Plan
+                </button>
+              </div>
+            )}
+            </div>
           </div>
         </div>
       )}
 
-      {/* 3. Execution Progress Animation */}
-      {stage === 'executing' && (
+      {/* 3. Execution Progress */}
+      {(stage === 'executing' || stage === 'failed') && (
         <div className="fixed inset-0 z-[80] flex flex-col items-center justify-center bg-white dark:bg-slate-950 px-4">
           <div className="w-full max-w-2xl space-y-8">
             <div className="text-center space-y-2">
-              <h2 className="text-3xl font-black uppercase tracking-[0.2em] text-transparent bg-clip-text bg-gradient-to-r from-primary-500 to-indigo-600 animate-pulse">
-                Processing Vision
-              </h2>
-              <p className="text-slate-500">Please wait while our engines render reality.</p>
+              {stage === 'failed' ? (
+                <h2 className="text-3xl font-black uppercase tracking-[0.2em] text-red-500">Workflow Failed</h2>
+              ) : (
+                <h2 className="text-3xl font-black uppercase tracking-[0.2em] text-transparent bg-clip-text bg-gradient-to-r from-primary-500 to-indigo-600 animate-pulse">
+                  Processing Vision
+                </h2>
+              )}
+              <p className="text-slate-500">
+                {stage === 'failed' && progress.failedPhase
+                  ? `Stopped while ${PHASE_LABELS[progress.failedPhase].toLowerCase()}.`
+                  : 'Please wait while our engines render reality.'}
+              </p>
             </div>
 
             <div className="bg-slate-100 dark:bg-slate-900 rounded-3xl p-8 shadow-inner border border-slate-200 dark:border-slate-800 space-y-6">
-              {PROCESSING_STEPS[activeTaskType].map((stepText, idx) => {
-                 const isCompleted = completedSteps[idx];
-                 const isCurrent = idx === currentStepIndex;
-                 const isPending = idx > currentStepIndex;
+              {progress.phases.map(({ phase, status, elapsedMs }, idx) => {
+                 const isCompleted = status === 'done';
+                 const isCurrent = status === 'active';
+                 const isFailed = status === 'failed';
+                 const isPending = status === 'pending';
+                 const label = phase === 'waiting'
+                   ? `Waiting for ${activeTaskType === 'generate' && generationSettings.imageSize !== '1K' ? gemini.getImageProvider().models.imageHighRes : gemini.getImageProvider().models.image}`
+                   : PHASE_LABELS[phase];
 
                  return (
-                   <div key={idx} className={`flex items-center gap-4 transition-all duration-500 ${isPending ? 'opacity-30' : 'opacity-100'}`}>
+                   <div key={phase} className={`flex items-center gap-4 transition-all duration-500 ${isPending ? 'opacity-30' : 'opacity-100'}`}>
                       <div className={`w-8 h-8 rounded-full flex items-center justify-center border-2 transition-all ${
                         isCompleted ? 'bg-green-500 border-green-500 text-white' : 
+                        isFailed ? 'bg-red-500 border-red-500 text-white' :
                         isCurrent ? 'border-primary-500 text-primary-500 animate-spin-slow' : 'border-slate-400'
                       }`}>
                         {isCompleted ? (
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+                        ) : isFailed ? (
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                         ) : (
                           <span className="text-xs font-bold">{idx + 1}</span>
                         )}
                       </div>
                       <div className="flex-1">
-                        <p className={`font-bold text-lg ${isCurrent ? 'text-primary-600 dark:text-primary-400' : 'text-slate-700 dark:text-slate-300'}`}>{stepText}</p>
+                        <div className="flex items-baseline justify-between gap-4">
+                          <p className={`font-bold text-lg ${isFailed ? 'text-red-500' : isCurrent ? 'text-primary-600 dark:text-primary-400' : 'text-slate-700 dark:text-slate-300'}`}>{label}</p>
+                          {!isPending && <span className="text-xs font-mono text-slate-400">{(elapsedMs / 1000).toFixed(1)}s</span>}
+                        </div>
                         {isCurrent && (
                           <div className="h-1 w-full bg-slate-200 dark:bg-slate-700 mt-2 rounded-full overflow-hidden">
                             <div className="h-full bg-primary-500 animate-progress-indeterminate"></div>
@@ -898,6 +2560,45 @@ const App: React.FC = () => {
                  );
               })}
             </div>
+
+            <div className="text-center">
+              {stage === 'failed' ? (
+                <button onClick={() => setStage('idle')} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 border-2 border-slate-200 dark:border-slate-800 hover:border-primary-500 hover:text-primary-500 transition-colors">Dismiss</button>
+              ) : (
+                <button onClick={cancelWorkflow} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 border-2 border-slate-200 dark:border-slate-800 hover:border-red-500 hover:text-red-500 transition-colors">Cancel</button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showShortcuts && <ShortcutSheet onClose={() => setShowShortcuts(false)} />}
+
+      {showLibrary && (
+        <ProjectLibrary
+          projects={projects}
+          currentProjectId={projectId}
+          onOpen={handleOpenProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {restoreCandidate && (
+        <div className="fixed inset-0 z-[95] flex items-center justify-center p-4 bg-slate-950/60 backdrop-blur-sm animate-fadeIn">
+          <div className="glass w-full max-w-sm rounded-3xl p-6 shadow-2xl space-y-4">
+            <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">Restore previous session?</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              <span className="font-bold">{restoreCandidate.name}</span> was open when VisionMix was last closed, with {restoreCandidate.layerCount} layers and {restoreCandidate.resultCount} results.
+              It was saved {new Date(restoreCandidate.updatedAt).toLocaleString()}.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => handleRestoreSession(false)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 border-2 border-slate-200 dark:border-slate-800 hover:border-primary-500 hover:text-primary-500 transition-colors">Start Fresh</button>
+              <button onClick={() => handleRestoreSession(true)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-white bg-primary-600 hover:bg-primary-500 transition-colors">Restore</button>
+            </div>
           </div>
         </div>
       )}
@@ -913,7 +2614,9 @@ const App: React.FC = () => {
              </div>
              <div className="flex-1 space-y-1">
                <h3 className="text-sm font-black uppercase tracking-widest text-slate-900 dark:text-white">{error.message}</h3>
+               {error.guidance && <p className="text-xs font-bold text-red-600 dark:text-red-400">{error.guidance}</p>}
                <p className="text-xs font-medium text-slate-500">{error.details}</p>
+               <p className="text-[10px] font-mono text-slate-400">Ref: {error.id}</p>
              </div>
              <button onClick={() => setError(null)} className="h-fit text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors">
                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { CanvasBackground, CanvasSettings } from '../types';
+
+interface DocumentSettingsPanelProps {
+  settings: CanvasSettings;
+  onChange: (settings: CanvasSettings) => void;
+  onBackgroundFile: (file: File) => void; // Checked and normalised by the caller like any imported image
+}
+
+const SIZE_PRESETS: { label: string; width: number; height: number }[] = [
+  { label: '1:1', width: 600, height: 600 },
+  { label: '4:3', width: 800, height: 600 },
+  { label: '3:4', width: 600, height: 800 },
+  { label: '16:9', width: 960, height: 540 },
+  { label: '9:16', width: 540, height: 960 }
+];
+
+const EXPORT_SIZES = [1024, 2048, 4096];
+const WORKING_SIZES = [1024, 2048, 4096];
+const MIN_SIDE = 100;
+const MAX_SIDE = 2000;
+
+const clampSide = (value: number) => Math.max(MIN_SIDE, Math.min(MAX_SIDE, Math.round(value) || MIN_SIDE));
+
+// Keeps what the user types as a draft and clamps it on blur or Enter, so partial values are not snapped
+const SideInput: React.FC<{ value: number; title: string; onCommit: (value: number) => void }> = ({ value, title, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const next = clampSide(parseInt(draft, 10));
+    setDraft(String(next));
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <input
+      type="number"
+      min={MIN_SIDE}
+      max={MAX_SIDE}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(String(value));
+      }}
+      className="w-20 bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-xs outline-none"
+      title={title}
+    />
+  );
+};
+
+const DocumentSettingsPanel: React.FC<DocumentSettingsPanelProps> = ({ settings, onChange, onBackgroundFile }) => {
+  const update = (updates: Partial<CanvasSettings>) => onChange({ ...settings, ...updates });
+  const setBackground = (background: CanvasBackground) => update({ background });
+
+  const handleBackgroundFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onBackgroundFile(file);
+    e.target.value = '';
+  };
+
+  const exportWidth = Math.round(settings.width * settings.exportLongEdge / Math.max(settings.width, settings.height));
+  const exportHeight = Math.round(settings.height * settings.exportLongEdge / Math.max(settings.width, settings.height));
+
+  return (
+    <div className="p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg animate-fadeIn space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-bold text-slate-500 uppercase">Size</span>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+          {SIZE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => update({ width: preset.width, height: preset.height })}
+              className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${settings.width === preset.width && settings.height === preset.height ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <SideInput value={settings.width} title="Width" onCommit={(width) => update({ width })} />
+        <span className="text-xs text-slate-400">×</span>
+        <SideInput value={settings.height} title="Height" onCommit={(height) => update({ height })} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-bold text-slate-500 uppercase">Background</span>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+          {([
+            { kind: 'color', label: 'Color' },
+            { kind: 'transparent', label: 'Transparent' },
+            { kind: 'image', label: 'Image' }
+          ] as { kind: CanvasBackground['kind']; label: string }[]).map(option => {
+            const optionClass = `px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${settings.background.kind === option.kind ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`;
+            // The image option is a label so the file input is not nested inside a button
+            return option.kind === 'image' ? (
+              <label key={option.kind} className={`${optionClass} cursor-pointer`}>
+                {option.label}
+                <input type="file" className="hidden" accept="image/*" onChange={handleBackgroundFile} />
+              </label>
+            ) : (
+              <button
+                key={option.kind}
+                onClick={() => setBackground(option.kind === 'color' ? { kind: 'color', color: '#ffffff' } : { kind: 'transparent' })}
+                className={optionClass}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+        {settings.background.kind === 'color' && (
+          <input
+            type="color"
+            value={settings.background.color}
+            onChange={(e) => setBackground({ kind: 'color', color: e.target.value })}
+            className="w-8 h-8 rounded cursor-pointer bg-transparent"
+            title="Background Color"
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-bold text-slate-500 uppercase">Export</span>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+          {EXPORT_SIZES.map(size => (
+            <button
+              key={size}
+              onClick={() => update({ exportLongEdge: size })}
+              className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${settings.exportLongEdge === size ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {size}px
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] text-slate-400">{exportWidth}×{exportHeight}px</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-bold text-slate-500 uppercase">Import</span>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+          {WORKING_SIZES.map(size => (
+            <button
+              key={size}
+              onClick={() => update({ workingLongEdge: size })}
+              className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${settings.workingLongEdge === size ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {size}px
+            </button>
+          ))}
+        </div>
+        <span className="text-[10px] text-slate-400">Working size for new images; originals are kept for export</span>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentSettingsPanel;
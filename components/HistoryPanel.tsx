@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { GeneratedImage, TaskType } from '../types';
+import { DEFAULT_HISTORY_FILTERS, HistoryDateRange, HistoryFilters, StorageUsage, estimateHistoryBytes, filterHistory, formatBytes, getLineage, getSiblings } from '../utils/historyUtils';
+import VersionTree from './VersionTree';
+
+interface HistoryPanelProps {
+  history: GeneratedImage[];
+  storage: StorageUsage | null;
+  onOpen: (item: GeneratedImage) => void; // Makes the entry the current result in the Edit tab, so the next task branches from it
+  onAddToCanvas: (url: string) => void;
+  onReplaceSources: (item: GeneratedImage) => void;
+  canReplaceSources: (item: GeneratedImage) => boolean;
+  onToggleFavorite: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+export const TASK_LABELS: Record<TaskType, string> = {
+  generate: 'Generate',
+  edit: 'Edit & Merge',
+  clean: 'Deep Clean',
+  '3d': '3D',
+  inpaint: 'Inpaint',
+  refine: 'Refine'
+};
+
+const DATE_RANGES: { value: HistoryDateRange; label: string }[] = [
+  { value: 'all', label: 'Any Time' },
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'Past Week' },
+  { value: 'month', label: 'Past Month' }
+];
+
+type HistoryView = 'grid' | 'tree';
+
+const getTaskLabel = (item: GeneratedImage) => item.taskType ? TASK_LABELS[item.taskType] : item.type;
+
+const selectClass = "bg-slate-100 dark:bg-slate-800 rounded-lg px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none cursor-pointer";
+const actionClass = "py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:bg-primary-500 hover:text-white transition-colors";
+
+const StarIcon: React.FC<{ filled?: boolean }> = ({ filled }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill={filled ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={2}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.5a.56.56 0 011.04 0l2.12 5.11a.56.56 0 00.48.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.48-.35L11.48 3.5z" />
+  </svg>
+);
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, storage, onOpen, onAddToCanvas, onReplaceSources, canReplaceSources, onToggleFavorite, onDelete }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [view, setView] = useState<HistoryView>('grid');
+
+  const visible = filterHistory(history, filters);
+  const detail = history.find(item => item.id === detailId) ?? null;
+  const lineage = detail ? getLineage(history, detail.id) : [];
+  const childCount = detail ? history.filter(item => item.parentId === detail.id).length : 0;
+  const compared = history.find(item => item.id === compareId);
+  const siblings = compared ? getSiblings(history, compared) : [];
+  const historyBytes = estimateHistoryBytes(history);
+  const updateFilters = (updates: Partial<HistoryFilters>) => setFilters(prev => ({ ...prev, ...updates }));
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+
+  const deleteEntries = (ids: string[]) => {
+    onDelete(ids);
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+    if (detailId && ids.includes(detailId)) setDetailId(null);
+    if (compareId && ids.includes(compareId)) setCompareId(null);
+  };
+
+  const branchFrom = (item: GeneratedImage) => {
+    onOpen(item);
+    setDetailId(null);
+    setCompareId(null);
+  };
+
+  return (
+    <div className="lg:col-span-2 space-y-6 animate-fadeIn">
+      {/* Search & Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => updateFilters({ query: e.target.value })}
+          placeholder="Search prompts..."
+          className="flex-1 min-w-[160px] bg-slate-100 dark:bg-slate-800 rounded-lg px-3 py-1.5 text-xs outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <select value={filters.type} onChange={(e) => updateFilters({ type: e.target.value as HistoryFilters['type'] })} className={selectClass}>
+          <option value="all">All Types</option>
+          <option value="generation">Generation</option>
+          <option value="edit">Edit</option>
+        </select>
+        <select value={filters.taskType} onChange={(e) => updateFilters({ taskType: e.target.value as HistoryFilters['taskType'] })} className={selectClass}>
+          <option value="all">All Tasks</option>
+          {(Object.keys(TASK_LABELS) as TaskType[]).map(task => (
+            <option key={task} value={task}>{TASK_LABELS[task]}</option>
+          ))}
+        </select>
+        <select value={filters.dateRange} onChange={(e) => updateFilters({ dateRange: e.target.value as HistoryDateRange })} className={selectClass}>
+          {DATE_RANGES.map(range => (
+            <option key={range.value} value={range.value}>{range.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => updateFilters({ favoritesOnly: !filters.favoritesOnly })}
+          className={`p-1.5 rounded-lg transition-colors ${filters.favoritesOnly ? 'text-amber-500 bg-amber-50 dark:bg-amber-900/20' : 'text-slate-400 bg-slate-100 dark:bg-slate-800'}`}
+          title="Favorites Only"
+        >
+          <StarIcon filled={filters.favoritesOnly} />
+        </button>
+        <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-0.5">
+          {(['grid', 'tree'] as HistoryView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-2 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-colors ${view === option ? 'bg-white dark:bg-slate-700 text-primary-600 shadow' : 'text-slate-400'}`}
+            >
+              {option === 'grid' ? 'Grid' : 'Versions'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Selection & Storage */}
+      <div className="flex flex-wrap items-center justify-between gap-2 text-[10px] font-bold text-slate-400">
+        <div className="flex items-center gap-3">
+          <span>{visible.length} of {history.length} results</span>
+          {visible.length > 0 && (
+            <button
+              onClick={() => setSelectedIds(selectedIds.length === visible.length ? [] : visible.map(item => item.id))}
+              className="font-black uppercase tracking-widest text-primary-600 hover:text-primary-500"
+            >
+              {selectedIds.length === visible.length ? 'Clear Selection' : 'Select All'}
+            </button>
+          )}
+          {selectedIds.length > 0 && (
+            <button onClick={() => deleteEntries(selectedIds)} className="font-black uppercase tracking-widest text-red-500 hover:text-red-400">
+              Delete {selectedIds.length} Selected
+            </button>
+          )}
+        </div>
+        <span title="History size is an estimate; browser usage covers every project">
+          History {formatBytes(historyBytes)}
+          {storage && <> · Browser storage {formatBytes(storage.usage)} of {formatBytes(storage.quota)}</>}
+        </span>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-sm text-slate-400">Generated and edited images appear here.</p>
+      ) : view === 'tree' ? (
+        <VersionTree
+          history={history}
+          matchingIds={new Set(visible.map(item => item.id))}
+          taskLabel={getTaskLabel}
+          onSelect={(item) => setDetailId(item.id)}
+          onBranch={branchFrom}
+          onCompare={(item) => setCompareId(item.id)}
+        />
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-slate-400">No results match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {visible.map((item) => (
+            <div
+              key={item.id}
+              className={`glass p-3 rounded-3xl border group relative cursor-pointer overflow-hidden shadow-lg hover:shadow-2xl transition-all ${selectedIds.includes(item.id) ? 'border-primary-500' : 'border-slate-200 dark:border-slate-800'}`}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData('text/uri-list', item.url);
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              onClick={() => setDetailId(item.id)}
+            >
+              <div className="aspect-square rounded-2xl overflow-hidden bg-slate-100 dark:bg-slate-900 shadow-inner relative">
+                <img src={item.url} alt={item.prompt} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(item.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(item.id)}
+                  className={`absolute top-2 left-2 w-4 h-4 accent-primary-600 cursor-pointer ${selectedIds.length > 0 ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                  title="Select"
+                />
+                <button
+                  onClick={(e) => { e.stopPropagation(); onToggleFavorite(item.id); }}
+                  className={`absolute top-2 right-2 p-1 rounded-full bg-white/80 dark:bg-slate-900/80 ${item.favorite ? 'text-amber-500' : 'text-slate-400 opacity-0 group-hover:opacity-100'}`}
+                  title={item.favorite ? 'Remove from Favorites' : 'Add to Favorites'}
+                >
+                  <StarIcon filled={item.favorite} />
+                </button>
+              </div>
+              <div className="mt-3 px-1">
+                <p className="text-[10px] font-black uppercase tracking-widest text-primary-500">
+                  {getTaskLabel(item)}
+                  {item.settings && <span className="text-slate-400"> · {item.settings.aspectRatio} · {item.settings.imageSize}</span>}
+                </p>
+                <p className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate mt-1">{item.prompt}</p>
+              </div>
+              <div className="mt-3 grid grid-cols-2 gap-2">
+                <button onClick={(e) => { e.stopPropagation(); onAddToCanvas(item.url); }} className={actionClass}>
+                  Add to Canvas
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onReplaceSources(item); }}
+                  disabled={!canReplaceSources(item)}
+                  className={`${actionClass} disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-slate-100 dark:disabled:hover:bg-slate-800 disabled:hover:text-slate-600`}
+                >
+                  Replace Sources
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Detail View */}
+      {detail && (
+        <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-slate-950/60 backdrop-blur-sm animate-fadeIn" onClick={() => setDetailId(null)}>
+          <div className="glass w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-3xl p-6 shadow-2xl grid md:grid-cols-2 gap-6" onClick={(e) => e.stopPropagation()}>
+            <img src={detail.url} alt={detail.prompt} className="w-full rounded-2xl bg-slate-100 dark:bg-slate-900 object-contain max-h-[60vh]" />
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">Result Details</h3>
+                <button onClick={() => setDetailId(null)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-500 transition-colors">Close</button>
+              </div>
+              <div className="space-y-1">
+                <h4 className="text-[10px] font-black uppercase tracking-widest text-primary-600">Prompt</h4>
+                <p className="text-sm text-slate-700 dark:text-slate-200 whitespace-pre-wrap">{detail.prompt}</p>
+              </div>
+              {detail.instruction && detail.instruction !== detail.prompt && (
+                <div className="space-y-1">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-primary-600">Instruction Sent</h4>
+                  <p className="text-xs text-slate-600 dark:text-slate-300 whitespace-pre-wrap max-h-40 overflow-y-auto">{detail.instruction}</p>
+                </div>
+              )}
+              <dl className="grid grid-cols-2 gap-2 text-xs">
+                <dt className="font-bold text-slate-400">Task</dt>
+                <dd className="text-slate-600 dark:text-slate-300">{getTaskLabel(detail)}</dd>
+                <dt className="font-bold text-slate-400">Model</dt>
+                <dd className="text-slate-600 dark:text-slate-300 break-all">{detail.model ?? 'Not recorded'}</dd>
+                <dt className="font-bold text-slate-400">Created</dt>
+                <dd className="text-slate-600 dark:text-slate-300">{new Date(detail.timestamp).toLocaleString()}</dd>
+                {detail.settings && (
+                  <>
+                    <dt className="font-bold text-slate-400">Settings</dt>
+                    <dd className="text-slate-600 dark:text-slate-300">{detail.settings.aspectRatio} · {detail.settings.imageSize}</dd>
+                  </>
+                )}
+              </dl>
+              {detail.sourceThumbnails && detail.sourceThumbnails.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-primary-600">Source Images</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {detail.sourceThumbnails.map((thumbnail, idx) => (
+                      <img key={idx} src={thumbnail} alt={`Source ${idx + 1}`} className="w-16 h-16 rounded-lg object-cover bg-slate-100 dark:bg-slate-900" />
+                    ))}
+                  </div>
+                </div>
+              )}
+              {(lineage.length > 1 || childCount > 0) && (
+                <div className="space-y-1">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-primary-600">Lineage</h4>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {lineage.map((ancestor, idx) => (
+                      <React.Fragment key={ancestor.id}>
+                        {idx > 0 && <span className="text-slate-300">›</span>}
+                        <button
+                          onClick={() => setDetailId(ancestor.id)}
+                          disabled={ancestor.id === detail.id}
+                          className={`rounded-lg overflow-hidden ring-2 ${ancestor.id === detail.id ? 'ring-primary-500' : 'ring-transparent hover:ring-primary-300'}`}
+                          title={`${getTaskLabel(ancestor)}: ${ancestor.instruction ?? ancestor.prompt}`}
+                        >
+                          <img src={ancestor.url} alt={ancestor.prompt} className="w-10 h-10 object-cover bg-slate-100 dark:bg-slate-900" />
+                        </button>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                  {childCount > 0 && <p className="text-[10px] text-slate-400">{childCount} {childCount === 1 ? 'version' : 'versions'} made from this result</p>}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => branchFrom(detail)} className={`${actionClass} col-span-2 bg-primary-600 text-white`} title="The next task will build on this result">
+                  Open in Editor
+                </button>
+                {getSiblings(history, detail).length > 1 && (
+                  <button onClick={() => { setCompareId(detail.id); setDetailId(null); }} className={`${actionClass} col-span-2`}>
+                    Compare Siblings
+                  </button>
+                )}
+                <button onClick={() => onAddToCanvas(detail.url)} className={actionClass}>Add to Canvas</button>
+                <button
+                  onClick={() => onReplaceSources(detail)}
+                  disabled={!canReplaceSources(detail)}
+                  className={`${actionClass} disabled:opacity-30 disabled:cursor-not-allowed`}
+                >
+                  Replace Sources
+                </button>
+                <button onClick={() => onToggleFavorite(detail.id)} className={actionClass}>
+                  {detail.favorite ? 'Unfavorite' : 'Favorite'}
+                </button>
+                <button onClick={() => deleteEntries([detail.id])} className={`${actionClass} text-red-500 hover:bg-red-500`}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Sibling Comparison */}
+      {compared && (
+        <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-slate-950/60 backdrop-blur-sm animate-fadeIn" onClick={() => setCompareId(null)}>
+          <div className="glass w-full max-w-5xl max-h-[90vh] overflow-y-auto rounded-3xl p-6 shadow-2xl space-y-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">Compare Versions · {siblings.length} from the same parent</h3>
+              <button onClick={() => setCompareId(null)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-500 transition-colors">Close</button>
+            </div>
+            <div className={`grid gap-4 ${siblings.length === 2 ? 'grid-cols-2' : 'grid-cols-2 lg:grid-cols-3'}`}>
+              {siblings.map(sibling => (
+                <div key={sibling.id} className={`p-3 rounded-2xl border space-y-2 ${sibling.id === compared.id ? 'border-primary-500' : 'border-slate-200 dark:border-slate-800'}`}>
+                  <img src={sibling.url} alt={sibling.prompt} className="w-full aspect-square rounded-xl object-contain bg-slate-100 dark:bg-slate-900" />
+                  <p className="text-[10px] font-black uppercase tracking-widest text-primary-500">{getTaskLabel(sibling)}</p>
+                  <p className="text-xs text-slate-600 dark:text-slate-300 line-clamp-3" title={sibling.instruction ?? sibling.prompt}>{sibling.instruction ?? sibling.prompt}</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => branchFrom(sibling)} className={actionClass}>Branch</button>
+                    <button onClick={() => { setDetailId(sibling.id); setCompareId(null); }} className={actionClass}>Details</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
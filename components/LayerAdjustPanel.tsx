@@ -0,0 +1,123 @@
+import React from 'react';
+import { CanvasLayer, CropRect, LayerAdjustments } from '../types';
+import { DEFAULT_ADJUSTMENTS, FULL_CROP, applyCrop, hasLayerEdits, resetLayerEdits } from '../utils/layerAdjustments';
+
+interface LayerAdjustPanelProps {
+  layer: CanvasLayer;
+  onUpdate: (updates: Partial<CanvasLayer>) => void; // Recorded as an undo step
+  onAdjust: (updates: Partial<CanvasLayer>) => void; // Live slider changes, not recorded
+}
+
+const ADJUSTMENT_CONTROLS: { key: keyof LayerAdjustments; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'brightness', label: 'Brightness', min: 0, max: 200, step: 1, unit: '%' },
+  { key: 'contrast', label: 'Contrast', min: 0, max: 200, step: 1, unit: '%' },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 200, step: 1, unit: '%' },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1, unit: '°' },
+  { key: 'blur', label: 'Blur', min: 0, max: 20, step: 0.5, unit: 'px' },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 1, step: 0.05, unit: '' }
+];
+
+type CropEdge = 'left' | 'top' | 'right' | 'bottom';
+const CROP_EDGES: CropEdge[] = ['left', 'top', 'right', 'bottom'];
+const MIN_CROP = 0.05; // Smallest share of the image that stays visible
+
+const getInsets = (crop: CropRect): Record<CropEdge, number> => ({
+  left: crop.x,
+  top: crop.y,
+  right: 1 - crop.x - crop.width,
+  bottom: 1 - crop.y - crop.height
+});
+
+const LayerAdjustPanel: React.FC<LayerAdjustPanelProps> = ({ layer, onUpdate, onAdjust }) => {
+  const adjustments = layer.adjustments ?? DEFAULT_ADJUSTMENTS;
+  const insets = layer.kind === 'image' ? getInsets(layer.crop ?? FULL_CROP) : null;
+
+  const setInset = (edge: CropEdge, value: number) => {
+    if (layer.kind !== 'image' || !insets) return;
+    const next = { ...insets, [edge]: value };
+    // Opposite edges may not meet
+    const opposite = edge === 'left' ? 'right' : edge === 'right' ? 'left' : edge === 'top' ? 'bottom' : 'top';
+    next[edge] = Math.min(value, 1 - MIN_CROP - next[opposite]);
+    onAdjust(applyCrop(layer, {
+      x: next.left,
+      y: next.top,
+      width: 1 - next.left - next.right,
+      height: 1 - next.top - next.bottom
+    }));
+  };
+
+  return (
+    <div className="p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg animate-fadeIn space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-bold text-slate-500 uppercase">Flip</span>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+          <button
+            onClick={() => onUpdate({ flipX: !layer.flipX })}
+            className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${layer.flipX ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            Horizontal
+          </button>
+          <button
+            onClick={() => onUpdate({ flipY: !layer.flipY })}
+            className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${layer.flipY ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            Vertical
+          </button>
+        </div>
+        <button
+          onClick={() => onUpdate(resetLayerEdits(layer))}
+          disabled={!hasLayerEdits(layer)}
+          className="ml-auto px-2 py-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg disabled:opacity-30"
+          title="Remove crop, flip and adjustments"
+        >
+          Reset
+        </button>
+      </div>
+
+      {insets && (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs font-bold text-slate-500 uppercase">Crop</span>
+          {CROP_EDGES.map(edge => (
+            <label key={edge} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              {edge}
+              <input
+                type="range"
+                min="0"
+                max={1 - MIN_CROP}
+                step="0.01"
+                value={insets[edge]}
+                disabled={layer.locked}
+                onPointerDown={() => onUpdate({})}
+                onChange={(e) => setInset(edge, parseFloat(e.target.value))}
+                className="w-20 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600 disabled:opacity-30"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-2">
+        {ADJUSTMENT_CONTROLS.map(control => (
+          <label key={control.key} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <span className="w-20">{control.label}</span>
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={adjustments[control.key]}
+              onPointerDown={() => onUpdate({})}
+              onChange={(e) => onAdjust({ adjustments: { ...adjustments, [control.key]: parseFloat(e.target.value) } })}
+              onDoubleClick={() => onUpdate({ adjustments: { ...adjustments, [control.key]: DEFAULT_ADJUSTMENTS[control.key] } })}
+              className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600"
+              title="Double-click to reset"
+            />
+            <span className="w-10 text-right font-mono normal-case tracking-normal">{adjustments[control.key]}{control.unit}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LayerAdjustPanel;
@@ -1,15 +1,19 @@
 
 import React from 'react';
-import { CanvasLayer } from '../types';
+import { BlendMode, CanvasLayer } from '../types';
+import { BLEND_MODES } from '../utils/canvasLayout';
+import { getLayerSource, describeLayerContent } from '../utils/layerGraphics';
 
 interface LayerPanelProps {
   layers: CanvasLayer[];
-  selectedLayerId: string | null;
-  onSelect: (id: string) => void;
+  selectedLayerIds: string[];
+  onSelect: (layer: CanvasLayer, additive: boolean) => void;
   onReorder: (id: string, direction: 'up' | 'down') => void;
+  onUpdate: (id: string, updates: Partial<CanvasLayer>) => void; // Recorded as an undo step
+  onAdjust: (id: string, updates: Partial<CanvasLayer>) => void; // Live slider changes, not recorded
 }
 
-const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedLayerId, onSelect, onReorder }) => {
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedLayerIds, onSelect, onReorder, onUpdate, onAdjust }) => {
   if (layers.length === 0) return null;
 
   return (
@@ -19,17 +23,36 @@ const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedLayerId, onSele
         <span className="text-[10px] text-slate-400 bg-slate-200 dark:bg-slate-800 px-1.5 py-0.5 rounded-full">{layers.length}</span>
       </div>
       <div className="overflow-y-auto p-2 space-y-2 flex-1">
-        {[...layers].reverse().map((layer, index) => (
+        {[...layers].reverse().map((layer, index) => {
+          const isSelected = selectedLayerIds.includes(layer.id);
+          const depth = layer.groupPath?.length ?? 0;
+          return (
           <div 
             key={layer.id}
-            onClick={() => onSelect(layer.id)}
-            className={`p-2 rounded-lg cursor-pointer flex items-center gap-2 group transition-colors ${selectedLayerId === layer.id ? 'bg-primary-100 dark:bg-primary-900/30 ring-1 ring-primary-500' : 'hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+            onClick={(e) => onSelect(layer, e.shiftKey)}
+            style={{ marginLeft: depth * 8 }}
+            className={`p-2 rounded-lg cursor-pointer space-y-2 group transition-colors ${depth > 0 ? 'border-l-2 border-primary-400' : ''} ${isSelected ? 'bg-primary-100 dark:bg-primary-900/30 ring-1 ring-primary-500' : 'hover:bg-slate-200 dark:hover:bg-slate-800'}`}
           >
-            <img src={layer.url} className="w-8 h-8 rounded bg-white object-cover shadow-sm" alt="Thumbnail" />
+            <div className="flex items-center gap-2">
+            <img src={getLayerSource(layer)} className={`w-8 h-8 rounded bg-white ${layer.kind === 'image' ? 'object-cover' : 'object-contain'} shadow-sm ${layer.hidden ? 'opacity-30' : ''}`} alt="Thumbnail" />
             <div className="flex-1 min-w-0">
               <div className="text-[10px] font-bold truncate">Layer {layers.length - index}</div>
+              {layer.kind !== 'image' && <div className="text-[8px] text-slate-400 truncate">{describeLayerContent(layer)}</div>}
+              {depth > 0 && <div className="text-[8px] font-black uppercase tracking-widest text-slate-400">Group{depth > 1 ? ` ×${depth}` : ''}</div>}
             </div>
-            {selectedLayerId === layer.id && (
+            <div className="flex flex-col gap-1">
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { hidden: !layer.hidden }); }}
+                  className={`p-1 hover:bg-slate-300 dark:hover:bg-slate-700 rounded text-[8px] font-black transition-colors ${layer.hidden ? 'text-slate-400 line-through' : ''}`}
+                  title={layer.hidden ? 'Show Layer' : 'Hide Layer'}
+                >EYE</button>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { locked: !layer.locked }); }}
+                  className={`p-1 hover:bg-slate-300 dark:hover:bg-slate-700 rounded text-[8px] font-black transition-colors ${layer.locked ? 'text-amber-500' : 'text-slate-400'}`}
+                  title={layer.locked ? 'Unlock Layer' : 'Lock Layer'}
+                >LCK</button>
+            </div>
+            {isSelected && selectedLayerIds.length === 1 && (
               <div className="flex flex-col gap-1">
                   <button 
                     onClick={(e) => { e.stopPropagation(); onReorder(layer.id, 'up'); }}
@@ -41,8 +64,35 @@ const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedLayerId, onSele
                   >▼</button>
               </div>
             )}
+            </div>
+            {isSelected && selectedLayerIds.length === 1 && (
+              <div className="space-y-1" onClick={(e) => e.stopPropagation()}>
+                <input 
+                  type="range" 
+                  min="0" 
+                  max="1" 
+                  step="0.05" 
+                  value={layer.opacity ?? 1}
+                  onPointerDown={() => onUpdate(layer.id, { opacity: layer.opacity ?? 1 })}
+                  onChange={(e) => onAdjust(layer.id, { opacity: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                  title="Opacity"
+                />
+                <select
+                  value={layer.blendMode ?? 'normal'}
+                  onChange={(e) => onUpdate(layer.id, { blendMode: e.target.value as BlendMode })}
+                  className="w-full bg-white dark:bg-slate-800 rounded px-1 py-0.5 text-[8px] font-black uppercase tracking-widest text-slate-500 outline-none cursor-pointer"
+                  title="Blend Mode"
+                >
+                  {BLEND_MODES.map(mode => (
+                    <option key={mode} value={mode}>{mode}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage } from '../utils/imageUtils';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  targetLabel: string;
+  onCancel: () => void;
+  onSubmit: (maskUrl: string, instruction: string) => void;
+  onError: (message: string) => void; // The editor is unusable; the caller should close it
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+const MASK_COLOR = '#ef4444';
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, targetLabel, onCancel, onSubmit, onError }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40); // Display pixels
+  const [instruction, setInstruction] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadImage(imageUrl)
+      .then(img => { if (active) setDimensions({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(err => { if (active) onError(err.message); });
+    return () => { active = false; };
+  }, [imageUrl]);
+
+  // Maps a pointer event to image pixels, plus the ratio between image and display pixels
+  const toImageSpace = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const ratio = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * ratio, y: (e.clientY - rect.top) * ratio, ratio };
+  };
+
+  const paintTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y, ratio } = toImageSpace(e);
+    const from = lastPointRef.current ?? { x, y };
+
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * ratio;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+
+    lastPointRef.current = { x, y };
+    if (tool === 'brush') setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) paintTo(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const invertMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const snapshot = document.createElement('canvas');
+    snapshot.width = canvas.width;
+    snapshot.height = canvas.height;
+    snapshot.getContext('2d')?.drawImage(canvas, 0, 0);
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(snapshot, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    setHasMask(true);
+  };
+
+  // Exports the painted area as an opaque black/white PNG: white = regenerate, black = keep
+  const exportMask = (): string => {
+    const canvas = canvasRef.current;
+    if (!canvas) throw new Error("Mask canvas is not ready");
+    const white = document.createElement('canvas');
+    white.width = canvas.width;
+    white.height = canvas.height;
+    const wctx = white.getContext('2d');
+    if (!wctx) throw new Error("Could not get canvas context");
+    wctx.drawImage(canvas, 0, 0);
+    wctx.globalCompositeOperation = 'source-in';
+    wctx.fillStyle = '#ffffff';
+    wctx.fillRect(0, 0, white.width, white.height);
+
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const mctx = mask.getContext('2d');
+    if (!mctx) throw new Error("Could not get canvas context");
+    mctx.fillStyle = '#000000';
+    mctx.fillRect(0, 0, mask.width, mask.height);
+    mctx.drawImage(white, 0, 0);
+    return mask.toDataURL('image/png');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[75] flex items-center justify-center bg-slate-900/50 backdrop-blur-lg p-4 animate-fadeIn">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-4xl rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-widest text-slate-800 dark:text-white">Inpaint</h2>
+            <p className="text-sm text-slate-500 mt-1">Paint over the area of {targetLabel} to regenerate. Everything else keeps its original pixels.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-red-500 transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-wrap items-center gap-4 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+            {(['brush', 'eraser'] as MaskTool[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTool(t)}
+                className={`px-3 py-1 rounded-md text-[10px] font-black uppercase tracking-widest transition-all ${tool === t ? 'bg-white dark:bg-slate-700 text-primary-600 shadow-sm' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-bold text-slate-500 uppercase">Size</span>
+            <input
+              type="range"
+              min="5"
+              max="150"
+              step="1"
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value))}
+              className="w-24 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-primary-600"
+            />
+          </div>
+          <div className="flex gap-2 ml-auto">
+            <button onClick={invertMask} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">Invert</button>
+            <button onClick={clearMask} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">Clear</button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto p-6 flex items-center justify-center bg-slate-100 dark:bg-slate-950">
+          {dimensions && (
+            <div className="relative max-w-full" style={{ aspectRatio: `${dimensions.width} / ${dimensions.height}`, maxHeight: '50vh' }}>
+              <img src={imageUrl} alt="Inpaint target" className="w-full h-full object-contain select-none pointer-events-none" draggable={false} />
+              <canvas
+                ref={canvasRef}
+                width={dimensions.width}
+                height={dimensions.height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 dark:border-slate-800 flex flex-col sm:flex-row gap-4">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="What should appear in the masked area?"
+            className="flex-1 bg-slate-50 dark:bg-slate-950 border-2 border-slate-200 dark:border-slate-800 rounded-2xl px-4 py-3 text-sm font-medium focus:ring-4 focus:ring-primary-500/10 focus:border-primary-500 transition-all"
+          />
+          <button
+            onClick={() => {
+              try {
+                onSubmit(exportMask(), instruction);
+              } catch (err: any) {
+                onError(err.message);
+              }
+            }}
+            disabled={!hasMask || !instruction.trim()}
+            className="bg-gradient-to-r from-primary-600 to-indigo-600 hover:from-primary-700 hover:to-indigo-700 text-white font-black uppercase tracking-widest py-3 px-6 rounded-2xl shadow-lg shadow-primary-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            Regenerate Area
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -1,14 +1,18 @@
 
 import React from 'react';
 import { AppTheme } from '../types';
+import { ImageProvider, ImageProviderId } from '../services/geminiService';
 import ThemeToggle from './ThemeToggle';
 
 interface NavbarProps {
   theme: AppTheme;
   onThemeToggle: () => void;
+  providers: ImageProvider[];
+  providerId: ImageProviderId;
+  onProviderChange: (id: ImageProviderId) => void;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ theme, onThemeToggle }) => {
+const Navbar: React.FC<NavbarProps> = ({ theme, onThemeToggle, providers, providerId, onProviderChange }) => {
   return (
     <nav className="sticky top-0 z-50 glass border-b border-slate-200 dark:border-slate-800 px-4 py-3 sm:px-6">
       <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -23,6 +27,16 @@ const Navbar: React.FC<NavbarProps> = ({ theme, onThemeToggle }) => {
           </span>
         </div>
         <div className="flex items-center gap-4">
+          <select
+            value={providerId}
+            onChange={(e) => onProviderChange(e.target.value as ImageProviderId)}
+            className="bg-slate-200 dark:bg-slate-800 rounded-lg px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 outline-none cursor-pointer"
+            title="Image Model Provider"
+          >
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
           <ThemeToggle theme={theme} toggle={onThemeToggle} />
         </div>
       </div>
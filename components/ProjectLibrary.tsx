@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../utils/projectStore';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  currentProjectId: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, currentProjectId, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-slate-950/60 backdrop-blur-sm animate-fadeIn" onClick={onClose}>
+      <div className="glass w-full max-w-xl rounded-3xl p-6 shadow-2xl space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">Projects</h3>
+          <div className="flex items-center gap-3">
+            <button onClick={onCreate} className="text-[10px] font-black uppercase tracking-widest text-primary-600 hover:text-primary-500 transition-colors">New Project</button>
+            <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-500 transition-colors">Close</button>
+          </div>
+        </div>
+
+        {projects.length === 0 ? (
+          <p className="text-xs text-slate-400">No saved projects yet. Your work is saved here automatically as you edit.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-2">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`p-3 rounded-xl border flex items-center gap-3 ${project.id === currentProjectId ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/10' : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="w-full bg-slate-100 dark:bg-slate-700 rounded-lg px-2 py-1 text-sm font-bold outline-none"
+                    />
+                  ) : (
+                    <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">
+                      {project.name}
+                      {project.id === currentProjectId && <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-primary-600">Open</span>}
+                    </p>
+                  )}
+                  <p className="text-[10px] text-slate-400">
+                    {formatDate(project.updatedAt)} · {project.layerCount} layers · {project.resultCount} results
+                  </p>
+                </div>
+
+                {confirmDeleteId === project.id ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-bold text-red-500">Delete?</span>
+                    <button onClick={() => { onDelete(project.id); setConfirmDeleteId(null); }} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-white bg-red-500 rounded-lg">Yes</button>
+                    <button onClick={() => setConfirmDeleteId(null)} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-500 rounded-lg">No</button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    {project.id !== currentProjectId && (
+                      <button onClick={() => onOpen(project.id)} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded-lg">Open</button>
+                    )}
+                    <button onClick={() => { setRenamingId(project.id); setDraftName(project.name); }} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg">Rename</button>
+                    <button onClick={() => onDuplicate(project.id)} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg">Duplicate</button>
+                    <button onClick={() => setConfirmDeleteId(project.id)} className="px-2 py-1 text-[10px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg">Delete</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
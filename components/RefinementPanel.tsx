@@ -0,0 +1,79 @@
+import React from 'react';
+import { RefinementThread } from '../types';
+
+interface RefinementPanelProps {
+  thread: RefinementThread;
+  value: string;
+  isImproving: boolean;
+  onChange: (value: string) => void;
+  onImprove: () => void;
+  onSend: () => void;
+  onJump: (index: number) => void;
+}
+
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ thread, value, isImproving, onChange, onImprove, onSend, onJump }) => {
+  const steps = [
+    { label: 'Original', url: thread.baseUrl },
+    ...thread.turns.map(turn => ({ label: turn.instruction, url: turn.resultUrl }))
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-bold text-slate-700 dark:text-slate-300">Refine</label>
+        <button 
+          onClick={onImprove}
+          disabled={isImproving || !value}
+          className="text-[10px] font-black uppercase tracking-widest flex items-center gap-2 text-primary-600 hover:text-primary-700 disabled:opacity-30 transition-all"
+        >
+           {isImproving ? "Thinking..." : "Auto-Enhance"}
+        </button>
+      </div>
+
+      {thread.turns.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {steps.map((step, idx) => {
+            const index = idx - 1; // -1 is the base image
+            const isActive = index === thread.activeIndex;
+            const isAhead = index > thread.activeIndex;
+            return (
+              <button
+                key={idx}
+                onClick={() => onJump(index)}
+                className={`w-full flex items-center gap-3 p-2 rounded-xl text-left transition-colors ${isActive ? 'bg-primary-100 dark:bg-primary-900/30 ring-1 ring-primary-500' : 'hover:bg-slate-100 dark:hover:bg-slate-800'} ${isAhead ? 'opacity-50' : ''}`}
+              >
+                <img src={step.url} alt={`Step ${idx}`} className="w-10 h-10 rounded-lg object-cover bg-white shadow-sm flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{idx === 0 ? 'Start' : `Step ${idx}`}</p>
+                  <p className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate">{step.label}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && value.trim()) onSend(); }}
+          placeholder={thread.turns.length > 0 ? "Follow up: make the sky more dramatic..." : "Example: Make the lighting warmer..."}
+          className="flex-1 bg-slate-50 dark:bg-slate-900 border-2 border-slate-200 dark:border-slate-800 rounded-2xl px-4 py-3 text-sm font-medium focus:ring-4 focus:ring-primary-500/10 focus:border-primary-500 transition-all shadow-inner"
+        />
+        <button
+          onClick={onSend}
+          disabled={!value.trim()}
+          className="px-5 rounded-2xl bg-primary-600 hover:bg-primary-700 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          Send
+        </button>
+      </div>
+      {thread.activeIndex < thread.turns.length - 1 && (
+        <p className="text-[10px] font-medium text-slate-400">Sending from an earlier step replaces the steps after it.</p>
+      )}
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+
+interface ShortcutSheetProps {
+  onClose: () => void;
+}
+
+const SHORTCUT_GROUPS: { title: string; shortcuts: { keys: string[]; action: string }[] }[] = [
+  {
+    title: 'History',
+    shortcuts: [
+      { keys: ['Ctrl', 'Z'], action: 'Undo' },
+      { keys: ['Ctrl', 'Shift', 'Z'], action: 'Redo (also Ctrl+Y)' }
+    ]
+  },
+  {
+    title: 'Layers',
+    shortcuts: [
+      { keys: ['Ctrl', 'A'], action: 'Select all layers' },
+      { keys: ['Delete'], action: 'Remove selected layers (also Backspace)' },
+      { keys: ['←', '↑', '→', '↓'], action: 'Nudge by 1px; hold Shift for 10px' },
+      { keys: ['Ctrl', 'D'], action: 'Duplicate selection' },
+      { keys: ['Ctrl', 'C'], action: 'Copy selection' },
+      { keys: ['Ctrl', 'X'], action: 'Cut selection' },
+      { keys: ['Ctrl', 'V'], action: 'Paste layers, or an image from the system clipboard' }
+    ]
+  },
+  {
+    title: 'View',
+    shortcuts: [
+      { keys: ['Space', 'Drag'], action: 'Pan the canvas' },
+      { keys: ['Wheel'], action: 'Pan the canvas (also two-finger scroll)' },
+      { keys: ['Ctrl', 'Wheel'], action: 'Zoom around the pointer (also pinch)' }
+    ]
+  },
+  {
+    title: 'General',
+    shortcuts: [
+      { keys: ['Esc'], action: 'Deselect, close a dialog or cancel the running workflow' },
+      { keys: ['?'], action: 'Show or hide this sheet' }
+    ]
+  }
+];
+
+const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-slate-950/60 backdrop-blur-sm animate-fadeIn" onClick={onClose}>
+      <div className="glass w-full max-w-lg rounded-3xl p-6 shadow-2xl space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black uppercase tracking-widest text-slate-500">Keyboard Shortcuts</h3>
+          <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-500 transition-colors">Close</button>
+        </div>
+        <div className="grid sm:grid-cols-2 gap-5">
+          {SHORTCUT_GROUPS.map(group => (
+            <div key={group.title} className="space-y-2">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-primary-600">{group.title}</h4>
+              {group.shortcuts.map(shortcut => (
+                <div key={shortcut.action} className="flex items-start justify-between gap-3">
+                  <span className="text-xs text-slate-600 dark:text-slate-300">{shortcut.action}</span>
+                  <span className="flex gap-1 flex-shrink-0">
+                    {shortcut.keys.map(key => (
+                      <kbd key={key} className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-800 text-[10px] font-bold text-slate-600 dark:text-slate-300">{key}</kbd>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-400">On macOS, use ⌘ in place of Ctrl.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSheet;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { VersionNode, buildVersionTree } from '../utils/historyUtils';
+
+interface VersionTreeProps {
+  history: GeneratedImage[];
+  matchingIds: Set<string>; // Entries outside the current filters are dimmed, not hidden, so lineages stay intact
+  taskLabel: (item: GeneratedImage) => string;
+  onSelect: (item: GeneratedImage) => void;
+  onBranch: (item: GeneratedImage) => void;
+  onCompare: (item: GeneratedImage) => void;
+}
+
+const nodeActionClass = "px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-500 hover:bg-primary-500 hover:text-white transition-colors";
+
+const VersionTree: React.FC<VersionTreeProps> = ({ history, matchingIds, taskLabel, onSelect, onBranch, onCompare }) => {
+  const roots = buildVersionTree(history);
+
+  const renderNode = (node: VersionNode, hasSiblings: boolean): React.ReactNode => {
+    const { entry, children } = node;
+    return (
+      <li key={entry.id}>
+        <div
+          className={`flex items-center gap-3 p-2 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 group cursor-pointer ${matchingIds.has(entry.id) ? '' : 'opacity-40'}`}
+          onClick={() => onSelect(entry)}
+        >
+          <img src={entry.url} alt={entry.prompt} className="w-12 h-12 rounded-lg object-cover bg-slate-100 dark:bg-slate-900 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] font-black uppercase tracking-widest text-primary-500">
+              {taskLabel(entry)}
+              <span className="text-slate-400"> · {new Date(entry.timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}</span>
+            </p>
+            <p className="text-xs font-bold text-slate-700 dark:text-slate-300 truncate">{entry.instruction ?? entry.prompt}</p>
+          </div>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {hasSiblings && (
+              <button onClick={(e) => { e.stopPropagation(); onCompare(entry); }} className={nodeActionClass}>Compare</button>
+            )}
+            <button onClick={(e) => { e.stopPropagation(); onBranch(entry); }} className={nodeActionClass}>Branch</button>
+          </div>
+        </div>
+        {children.length > 0 && (
+          <ul className="ml-6 pl-3 border-l-2 border-slate-200 dark:border-slate-700 space-y-1">
+            {children.map(child => renderNode(child, children.length > 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  // Roots are independent starting points, so they are never compared as siblings
+  return <ul className="space-y-1">{roots.map(root => renderNode(root, false))}</ul>;
+};
+
+export default VersionTree;
@@ -0,0 +1,54 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { StoredWorkspace, putProject, setLastSession } from '../utils/projectStore';
+
+const AUTOSAVE_DELAY_MS = 1500; // Quiet time after the last change
+const AUTOSAVE_MAX_WAIT_MS = 10000; // Save at least this often while changes keep coming
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Debounced autosave of the workspace into the local project library. `workspace` should be
+ * memoized: every new object counts as a change.
+ */
+export const useAutosave = (projectId: string, workspace: StoredWorkspace, enabled: boolean, onSaved?: () => void) => {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const pendingSinceRef = useRef<number | null>(null);
+  const latestRef = useRef({ projectId, workspace, enabled, onSaved });
+  latestRef.current = { projectId, workspace, enabled, onSaved };
+
+  const save = useCallback(async () => {
+    const { projectId: id, workspace: data, enabled: canSave, onSaved: notify } = latestRef.current;
+    pendingSinceRef.current = null;
+    if (!canSave) return;
+    setStatus('saving');
+    try {
+      await putProject(id, data);
+      await setLastSession(id);
+      setStatus('saved');
+      setSavedAt(Date.now());
+      setError(null);
+      notify?.();
+    } catch (err: any) {
+      setStatus('error');
+      setError(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const now = Date.now();
+    pendingSinceRef.current = pendingSinceRef.current ?? now;
+    const wait = Math.min(AUTOSAVE_DELAY_MS, Math.max(0, pendingSinceRef.current + AUTOSAVE_MAX_WAIT_MS - now));
+    const timer = setTimeout(save, wait);
+    return () => clearTimeout(timer);
+  }, [projectId, workspace, enabled, save]);
+
+  return {
+    status,
+    savedAt,
+    error,
+    saveNow: save // Flushes pending changes, e.g. before switching projects
+  };
+};
@@ -39,12 +39,19 @@ export const useCanvasHistory = () => {
     return next;
   }, [redoStack]);
 
+  // Drops both stacks, e.g. when a different project is opened
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+    setRedoStack([]);
+  }, []);
+
   return {
     canUndo: history.length > 0,
     canRedo: redoStack.length > 0,
     recordState,
     undo,
     redo,
+    clearHistory,
     historyLength: history.length,
     redoLength: redoStack.length
   };
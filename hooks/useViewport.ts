@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+const FIT_PADDING = 24; // Space left around the document when fitting it to the screen
+
+export interface Viewport {
+  zoom: number;
+  panX: number; // Screen offset of the document's top-left corner inside the viewport element
+  panY: number;
+}
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const useViewport = () => {
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, panX: 0, panY: 0 });
+
+  // Zooms by `factor` while keeping the given point (relative to the viewport element) still
+  const zoomAt = useCallback((factor: number, screenX: number, screenY: number) => {
+    setViewport(prev => {
+      const zoom = clampZoom(prev.zoom * factor);
+      const applied = zoom / prev.zoom;
+      return {
+        zoom,
+        panX: screenX - (screenX - prev.panX) * applied,
+        panY: screenY - (screenY - prev.panY) * applied
+      };
+    });
+  }, []);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setViewport(prev => ({ ...prev, panX: prev.panX + dx, panY: prev.panY + dy }));
+  }, []);
+
+  // Centers the document at `zoom`, or at the largest zoom that fits it when none is given
+  const centerDocument = useCallback((viewWidth: number, viewHeight: number, docWidth: number, docHeight: number, zoom?: number) => {
+    const nextZoom = clampZoom(zoom ?? Math.min((viewWidth - FIT_PADDING * 2) / docWidth, (viewHeight - FIT_PADDING * 2) / docHeight));
+    setViewport({
+      zoom: nextZoom,
+      panX: (viewWidth - docWidth * nextZoom) / 2,
+      panY: (viewHeight - docHeight * nextZoom) / 2
+    });
+  }, []);
+
+  return {
+    ...viewport,
+    zoomAt,
+    panBy,
+    centerDocument
+  };
+};
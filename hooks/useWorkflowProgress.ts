@@ -0,0 +1,89 @@
+import { useState, useCallback, useEffect } from 'react';
+import { WorkflowPhase } from '../types';
+
+export type PhaseStatus = 'pending' | 'active' | 'done' | 'failed';
+export type WorkflowOutcome = 'completed' | 'failed' | 'cancelled';
+
+export interface PhaseProgress {
+  phase: WorkflowPhase;
+  status: PhaseStatus;
+  startedAt?: number;
+  elapsedMs: number;
+}
+
+const TICK_MS = 100;
+
+const closePhase = (p: PhaseProgress, status: PhaseStatus, now: number): PhaseProgress => ({
+  ...p,
+  status,
+  elapsedMs: p.startedAt !== undefined ? now - p.startedAt : p.elapsedMs
+});
+
+export const useWorkflowProgress = () => {
+  const [phases, setPhases] = useState<PhaseProgress[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [outcome, setOutcome] = useState<WorkflowOutcome | null>(null); // How the last run ended
+
+  const isRunning = phases.some(p => p.status === 'active');
+
+  // Re-render while a phase is active so its elapsed time counts up live
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const reset = useCallback((list: WorkflowPhase[]) => {
+    setPhases(list.map(phase => ({ phase, status: 'pending', elapsedMs: 0 })));
+    setOutcome(null);
+  }, []);
+
+  // Activates `phase`, closing everything before it. Re-entering an earlier phase (e.g. on retry) reopens it.
+  const enter = useCallback((phase: WorkflowPhase) => {
+    const timestamp = Date.now();
+    setPhases(prev => {
+      const target = prev.findIndex(p => p.phase === phase);
+      if (target === -1) return prev;
+      return prev.map((p, idx) => {
+        if (idx < target) return p.status === 'active' ? closePhase(p, 'done', timestamp) : { ...p, status: 'done' };
+        if (idx === target) return { ...p, status: 'active', startedAt: timestamp, elapsedMs: 0 };
+        return { ...p, status: 'pending', startedAt: undefined, elapsedMs: 0 };
+      });
+    });
+  }, []);
+
+  const complete = useCallback(() => {
+    const timestamp = Date.now();
+    setPhases(prev => prev.map(p => p.status === 'active' ? closePhase(p, 'done', timestamp) : p));
+    setOutcome('completed');
+  }, []);
+
+  // Marks the active phase as failed; if the error struck between phases, blames the next pending one.
+  const fail = useCallback(() => {
+    const timestamp = Date.now();
+    setPhases(prev => {
+      const culprit = prev.findIndex(p => p.status === 'active');
+      const target = culprit !== -1 ? culprit : prev.findIndex(p => p.status === 'pending');
+      return prev.map((p, idx) => idx === target ? closePhase(p, 'failed', timestamp) : p);
+    });
+    setOutcome('failed');
+  }, []);
+
+  // Stops the clock on the active phase; also records cancellations before any phase started
+  const cancel = useCallback(() => {
+    const timestamp = Date.now();
+    setPhases(prev => prev.map(p => p.status === 'active' ? closePhase(p, 'pending', timestamp) : p));
+    setOutcome('cancelled');
+  }, []);
+
+  return {
+    phases: phases.map(p => p.status === 'active' && p.startedAt !== undefined ? { ...p, elapsedMs: now - p.startedAt } : p),
+    failedPhase: phases.find(p => p.status === 'failed')?.phase ?? null,
+    outcome,
+    reset,
+    enter,
+    complete,
+    fail,
+    cancel
+  };
+};
@@ -0,0 +1,136 @@
+import { createAbortError, isAbortError, wait } from './imageProvider';
+
+export type ModelErrorCategory =
+  | 'rate_limit'
+  | 'safety'
+  | 'empty_response'
+  | 'network'
+  | 'auth'
+  | 'invalid_request'
+  | 'server'
+  | 'unknown';
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked: boolean;
+}
+
+interface ModelErrorOptions {
+  category: ModelErrorCategory;
+  retryable?: boolean;
+  status?: number;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  cause?: unknown;
+}
+
+/**
+ * Normalised failure raised by the service layer, whatever the provider.
+ */
+export class ModelError extends Error {
+  category: ModelErrorCategory;
+  retryable: boolean;
+  status?: number;
+  finishReason?: string;
+  safetyRatings: SafetyRating[];
+  cause?: unknown;
+
+  constructor(message: string, options: ModelErrorOptions) {
+    super(message);
+    this.name = 'ModelError';
+    this.category = options.category;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.finishReason = options.finishReason;
+    this.safetyRatings = options.safetyRatings ?? [];
+    this.cause = options.cause;
+  }
+}
+
+export const ERROR_GUIDANCE: Record<ModelErrorCategory, string> = {
+  rate_limit: 'Rate limit reached — wait a minute and try again.',
+  safety: 'Blocked by safety filter — rephrase the instruction or use different source images.',
+  empty_response: 'The model returned no image — try again or make the instruction more explicit.',
+  network: 'Network unavailable — check your connection and retry.',
+  auth: 'API key rejected — check GEMINI_API_KEY in .env.local.',
+  invalid_request: 'The request was rejected — simplify the prompt or reduce the number of images.',
+  server: 'The model service is having trouble — try again shortly.',
+  unknown: 'Something unexpected went wrong — try again.'
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+export const isSafetyFinishReason = (reason?: string): boolean => {
+  return !!reason && SAFETY_FINISH_REASONS.includes(reason);
+};
+
+const categorizeStatus = (status: number): ModelErrorCategory => {
+  if (status === 429) return 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+};
+
+const RETRYABLE_CATEGORIES: ModelErrorCategory[] = ['rate_limit', 'network', 'server', 'empty_response'];
+
+/**
+ * Maps anything a provider may throw (SDK errors, fetch failures, plain Errors) onto a ModelError.
+ */
+export const toModelError = (err: unknown): ModelError => {
+  if (err instanceof ModelError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof err === 'object' && err !== null && 'status' in err && typeof err.status === 'number' ? err.status : undefined;
+
+  let category: ModelErrorCategory = 'unknown';
+  if (status !== undefined) {
+    category = categorizeStatus(status);
+  } else if (/quota|rate limit|resource_exhausted/i.test(message)) {
+    category = 'rate_limit';
+  } else if (/safety|prohibited content/i.test(message)) {
+    category = 'safety';
+  } else if (err instanceof TypeError || /network|failed to fetch|load failed/i.test(message)) {
+    category = 'network';
+  } else if (!navigator.onLine) {
+    // Last resort: an otherwise unexplained failure while offline is most likely the connection
+    category = 'network';
+  }
+
+  return new ModelError(message, {
+    category,
+    retryable: RETRYABLE_CATEGORIES.includes(category),
+    status,
+    cause: err
+  });
+};
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff and jitter.
+ * Aborts are passed through untouched; everything else surfaces as a ModelError.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, retries = 3, baseDelayMs = 1000, maxDelayMs = 8000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw isAbortError(err) ? err : createAbortError();
+
+      const modelError = toModelError(err);
+      if (!modelError.retryable || attempt >= retries) throw modelError;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await wait(backoff / 2 + Math.random() * backoff / 2, signal);
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import { GenerationSettings, TaskType, WorkflowPhase } from '../types';
+
+export interface ImageData {
+  data: string;
+  mimeType: string;
+}
+
+export type ImageProviderId = 'gemini' | 'local';
+
+// The slice of a workflow that happens inside a provider call.
+export type RequestPhase = Extract<WorkflowPhase, 'uploading' | 'waiting'>;
+
+// A completed step of a refinement conversation.
+export interface RefinementContext {
+  instruction: string;
+  result: ImageData;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onPhase?: (phase: RequestPhase) => void;
+}
+
+/**
+ * Contract every image-model backend implements. The app only talks to the
+ * active provider through `geminiService`, so swapping backends never touches UI code.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  models: {
+    text: string;
+    image: string;
+    imageHighRes: string;
+  };
+  // Every call rejects with an AbortError once `options.signal` fires.
+  improvePrompt: (simplePrompt: string, options?: RequestOptions) => Promise<string>;
+  generateCreativeSuggestions: (prompt: string, imageCount: number, taskType: TaskType, options?: RequestOptions) => Promise<string[]>;
+  // Resolves with one data URL per candidate that came back.
+  generateImage: (prompt: string, settings: GenerationSettings, options?: RequestOptions) => Promise<string[]>;
+  editImage: (images: ImageData[], instruction: string, preserveFidelity?: boolean, options?: RequestOptions) => Promise<string>;
+  // `mask` is a black/white PNG of the same size as `image`; white marks the region to regenerate.
+  inpaintImage: (image: ImageData, mask: ImageData, instruction: string, options?: RequestOptions) => Promise<string>;
+  // Applies `instruction` to the latest image in a conversation that started from `baseImage`.
+  refineImage: (baseImage: ImageData, previousTurns: RefinementContext[], instruction: string, options?: RequestOptions) => Promise<string>;
+  // Merges full-resolution sources, using the flattened canvas only as a placement guide.
+  mergeLayers: (sources: ImageData[], layoutReference: ImageData, instruction: string, layoutDescription: string, options?: RequestOptions) => Promise<string>;
+  analyzeForDeepClean: (image: ImageData, options?: RequestOptions) => Promise<string>;
+  createMergePlan: (images: ImageData[], userGoal: string, options?: RequestOptions) => Promise<string>;
+}
+
+export const createAbortError = () => new DOMException("The request was cancelled.", 'AbortError');
+
+export const isAbortError = (err: unknown): boolean => {
+  return err instanceof Error && err.name === 'AbortError';
+};
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  }, { once: true });
+});
+
+// Strips the `data:<mime>;base64,` prefix that canvas/FileReader URLs carry.
+export const toBase64Payload = (data: string): string => {
+  return data.includes(',') ? data.split(',')[1] : data;
+};
@@ -0,0 +1,402 @@
+import { GoogleGenAI, Type, GenerateContentResponse, Content } from "@google/genai";
+import { GenerationSettings, TaskType } from '../../types';
+import { ImageData, ImageProvider, RefinementContext, RequestOptions, createAbortError, toBase64Payload } from '../imageProvider';
+import { ModelError, SafetyRating, isSafetyFinishReason } from '../errors';
+
+const TEXT_MODEL = 'gemini-3-flash-preview';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const MAX_CONTEXT_TURNS = 3; // Older turns are summarised as text to keep payloads small
+const IMAGE_HIGH_RES_MODEL = 'gemini-3-pro-image-preview'; // Only this model honours imageSize above 1K
+
+let client: GoogleGenAI | null = null;
+
+const getAIClient = () => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const toInlinePart = (img: ImageData) => ({
+  inlineData: {
+    data: toBase64Payload(img.data),
+    mimeType: img.mimeType
+  }
+});
+
+const extractImageUrl = (response: GenerateContentResponse): string => {
+  if (response.candidates?.[0]?.content?.parts) {
+    for (const part of response.candidates[0].content.parts) {
+      if (part.inlineData) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+  }
+  return '';
+};
+
+// Returns the first image, or explains why there is none (prompt blocked, safety stop, or simply empty).
+const requireImageUrl = (response: GenerateContentResponse, emptyMessage: string): string => {
+  const imageUrl = extractImageUrl(response);
+  if (imageUrl) return imageUrl;
+
+  const candidate = response.candidates?.[0];
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = blockReason || candidate?.finishReason;
+  const safetyRatings: SafetyRating[] = (candidate?.safetyRatings || response.promptFeedback?.safetyRatings || []).map(rating => ({
+    category: String(rating.category),
+    probability: String(rating.probability),
+    blocked: !!rating.blocked
+  }));
+
+  if (blockReason || isSafetyFinishReason(finishReason)) {
+    throw new ModelError(response.promptFeedback?.blockReasonMessage || `Blocked by safety filter (${finishReason}).`, {
+      category: 'safety',
+      finishReason,
+      safetyRatings
+    });
+  }
+  throw new ModelError(emptyMessage, {
+    category: 'empty_response',
+    retryable: true,
+    finishReason,
+    safetyRatings
+  });
+};
+
+const improvePrompt = async (simplePrompt: string, { signal }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: `Transform this simple image generation prompt into a highly detailed, artistic, and descriptive prompt for a high-end AI image generator. Focus on lighting, style, composition, and specific details. 
+    
+    Simple prompt: "${simplePrompt}"`,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          improvedPrompt: {
+            type: Type.STRING,
+            description: "The enhanced, descriptive prompt."
+          }
+        },
+        required: ["improvedPrompt"]
+      }
+    }
+  });
+
+  try {
+    const data = JSON.parse(response.text || '{}');
+    return data.improvedPrompt || simplePrompt;
+  } catch (e) {
+    return response.text || simplePrompt;
+  }
+};
+
+const generateCreativeSuggestions = async (prompt: string, imageCount: number, taskType: TaskType, { signal }: RequestOptions = {}): Promise<string[]> => {
+  const ai = getAIClient();
+  let context = "";
+  
+  if (taskType === 'generate') {
+    context = `User wants to GENERATE an image. Prompt: "${prompt}".`;
+  } else if (taskType === 'clean') {
+    context = `User wants to DEEP CLEAN an image (remove UI/clutter). Context: "${prompt}".`;
+  } else if (taskType === '3d') {
+    context = `User wants to TRANSFORM image to 3D. Context: "${prompt}".`;
+  } else if (taskType === 'inpaint') {
+    context = `User wants to REPAINT a masked region of an image. Context: "${prompt}".`;
+  } else if (taskType === 'refine') {
+    context = `User wants to REFINE an existing image with a follow-up edit. Context: "${prompt}".`;
+  } else {
+    context = `User wants to EDIT/MERGE ${imageCount} images. Prompt: "${prompt}".`;
+  }
+
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: `You are a creative AI Art Director.
+    ${context}
+    
+    TASK: Generate 5 distinct, creative, and high-quality variations/ideas for this request.
+    - Keep suggestions concise (10-15 words max) but descriptive.
+    - If Clean: Suggest different levels of cleaning (e.g., "Remove UI only", "Remove UI + Extend Background").
+    - If 3D: Suggest different render styles (e.g., "Cyberpunk Octane", "Claymorphism", "Hyper-realism").
+    - If Merge: Suggest different compositions.
+    
+    OUTPUT: Return strictly a JSON object with a "suggestions" array of strings.`,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          suggestions: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING }
+          }
+        },
+        required: ["suggestions"]
+      }
+    }
+  });
+
+  try {
+    const data = JSON.parse(response.text || '{}');
+    return data.suggestions || [prompt, prompt, prompt, prompt, prompt];
+  } catch (e) {
+    console.error("Failed to parse suggestions", e);
+    return [prompt]; 
+  }
+};
+
+const generateImage = async (prompt: string, settings: GenerationSettings, { signal, onPhase }: RequestOptions = {}): Promise<string[]> => {
+  const ai = getAIClient();
+  const highRes = settings.imageSize !== '1K';
+
+  onPhase?.('uploading');
+  // The image models return a single candidate per call, so candidates are requested in parallel.
+  const requests = Array.from({ length: settings.candidateCount }, () => ai.models.generateContent({
+    model: highRes ? IMAGE_HIGH_RES_MODEL : IMAGE_MODEL,
+    contents: {
+      parts: [{ text: prompt }]
+    },
+    config: {
+      abortSignal: signal,
+      imageConfig: highRes
+        ? { aspectRatio: settings.aspectRatio, imageSize: settings.imageSize }
+        : { aspectRatio: settings.aspectRatio }
+    }
+  }));
+
+  onPhase?.('waiting');
+  const results = await Promise.allSettled(requests.map(request => request.then(response => requireImageUrl(response, "No image was generated."))));
+  if (signal?.aborted) throw createAbortError();
+  const imageUrls = results
+    .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+    .map(result => result.value);
+
+  // Partial success still counts; only surface an error when every candidate failed.
+  if (imageUrls.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return imageUrls;
+};
+
+const editImage = async (images: ImageData[], instruction: string, preserveFidelity: boolean = false, { signal, onPhase }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+
+  // Enhanced strict instructions for fidelity and inclusion
+  const finalPrompt = preserveFidelity 
+    ? `CRITICAL INSTRUCTION: ${instruction}. 
+       RULES:
+       1. You MUST use ALL ${images.length} provided input images. Do not ignore any source image.
+       2. Maintain the EXACT geometric shape, text, and details of the primary objects from the source images.
+       3. If removing UI, replace it seamlessly with the underlying background pattern/color.
+       4. Do not hallucinate new text. Keep original names and labels legible.`
+    : instruction;
+
+  // fetch() cannot report upload completion, so "uploading" covers payload encoding and dispatch.
+  onPhase?.('uploading');
+  const parts = [
+    ...images.map(toInlinePart),
+    { text: finalPrompt }
+  ];
+
+  onPhase?.('waiting');
+  const response = await ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts
+    },
+    config: {
+      abortSignal: signal
+    }
+  });
+
+  return requireImageUrl(response, "Failed to edit the image.");
+};
+
+const inpaintImage = async (image: ImageData, mask: ImageData, instruction: string, { signal, onPhase }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+
+  onPhase?.('uploading');
+  const parts = [
+    { text: 'Original image:' },
+    toInlinePart(image),
+    { text: 'Mask (white = region to regenerate, black = keep unchanged):' },
+    toInlinePart(mask),
+    { text: `CRITICAL INSTRUCTION: Inside the white area of the mask only: ${instruction}.
+       RULES:
+       1. Keep every pixel outside the white area identical to the original image.
+       2. Blend the regenerated area seamlessly with its surroundings (lighting, perspective, grain).
+       3. Keep the exact dimensions and framing of the original image.` }
+  ];
+
+  onPhase?.('waiting');
+  const response = await ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts
+    },
+    config: {
+      abortSignal: signal
+    }
+  });
+
+  return requireImageUrl(response, "Failed to inpaint the image.");
+};
+
+/**
+ * Replays the refinement conversation as alternating user/model turns so the model sees
+ * what has already been asked for and how it answered.
+ */
+const refineImage = async (baseImage: ImageData, previousTurns: RefinementContext[], instruction: string, { signal, onPhase }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+
+  onPhase?.('uploading');
+  const kept = previousTurns.slice(-MAX_CONTEXT_TURNS);
+  const dropped = previousTurns.slice(0, previousTurns.length - kept.length);
+  // When early turns are dropped, the last dropped result becomes the starting image
+  const startImage = dropped.length > 0 ? dropped[dropped.length - 1].result : baseImage;
+  const summary = dropped.length > 0
+    ? `Edits already applied to this image: ${dropped.map(t => `"${t.instruction}"`).join(', ')}.\n`
+    : '';
+  const messages = [...kept.map(t => t.instruction), instruction];
+
+  const contents: Content[] = [
+    { role: 'user', parts: [toInlinePart(startImage), { text: `${summary}Edit this image: ${messages[0]}` }] },
+    ...kept.flatMap((turn, idx): Content[] => [
+      { role: 'model', parts: [toInlinePart(turn.result)] },
+      { role: 'user', parts: [{ text: `Now, keeping everything else as it is: ${messages[idx + 1]}` }] }
+    ])
+  ];
+
+  onPhase?.('waiting');
+  const response = await ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents,
+    config: {
+      abortSignal: signal
+    }
+  });
+
+  return requireImageUrl(response, "Failed to refine the image.");
+};
+
+/**
+ * Sends every layer at its original resolution, labelled, followed by the composite as a layout guide.
+ */
+const mergeLayers = async (sources: ImageData[], layoutReference: ImageData, instruction: string, layoutDescription: string, { signal, onPhase }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+
+  onPhase?.('uploading');
+  const parts = [
+    ...sources.flatMap((img, idx) => [{ text: `Source image ${idx + 1}:` }, toInlinePart(img)]),
+    { text: 'Layout reference (low fidelity, placement only):' },
+    toInlinePart(layoutReference),
+    { text: `CRITICAL INSTRUCTION: ${instruction}.
+       LAYOUT:
+       ${layoutDescription}
+       RULES:
+       1. You MUST use ALL ${sources.length} source images. Do not ignore any source image.
+       2. Take content and detail ONLY from the source images. The layout reference shows position, scale and rotation; never copy its blur or compression.
+       3. Maintain the EXACT geometric shape, text, and details of the primary objects from the source images.
+       4. Do not hallucinate new text. Keep original names and labels legible.` }
+  ];
+
+  onPhase?.('waiting');
+  const response = await ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts
+    },
+    config: {
+      abortSignal: signal
+    }
+  });
+
+  return requireImageUrl(response, "Failed to merge the layers.");
+};
+
+/**
+ * Advanced Visual Analysis to isolate core objects and strip screenshot elements.
+ */
+const analyzeForDeepClean = async (image: ImageData, { signal, onPhase }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+  onPhase?.('waiting');
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: {
+      parts: [
+        toInlinePart(image),
+        { text: `ACT AS A PIXEL-PERFECT IMAGE RESTORER. 
+        
+        TASK: Analyze this image and identify SPECIFIC clutter elements to remove.
+        1. Identify the Top Status Bar (Time, Signal bars, Battery icon, Notch/Dynamic Island).
+        2. Identify the Bottom Navigation Bar (Home indicator line, Back/Home/Recents buttons).
+        3. Identify any floating action buttons (FABs), scroll bars, or overlay icons.
+        
+        OUTPUT: A precise, imperative command for an image generator that says:
+        "Regenerate this image exactly as is, but strictly REMOVE [List identified UI elements]. EXTEND the background [Describe background color/pattern] to fill the gaps left by the UI. KEEP [Describe Core Subject] exactly identical. Do not change the aspect ratio or crop."` }
+      ]
+    },
+    config: {
+      abortSignal: signal
+    }
+  });
+  return response.text || "Strictly remove all screenshot UI, status bars, and background clutter, isolating only the core subject.";
+};
+
+/**
+ * Creates a comprehensive plan to merge multiple images without losing content.
+ */
+const createMergePlan = async (images: ImageData[], userGoal: string, { signal, onPhase }: RequestOptions = {}): Promise<string> => {
+  const ai = getAIClient();
+
+  onPhase?.('waiting');
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: {
+      parts: [
+        ...images.map(toInlinePart),
+        { text: `You are a Creative Director. I have provided ${images.length} distinct images. 
+        
+        YOUR TASK:
+        1. Analyze EACH image one by one. Identify the main subject, text labels, and key colors in each.
+        2. Create a "Master Composition Plan" based on the user's goal: "${userGoal}".
+        3. Ensure NO image is left out. Every input image must be represented in the final output.
+        4. If the user wants to merge them, decide on a logical layout (e.g., side-by-side, collage, integrated scene).
+        
+        OUTPUT: A single, highly detailed prompt for an image generator. 
+        The prompt must start with: "Create a composition using elements from the provided reference images..."
+        It must explicitly list every object to be included and where it should be placed.
+        It must emphasize preserving text legibility and original colors.` }
+      ]
+    },
+    config: {
+      abortSignal: signal
+    }
+  });
+
+  return response.text || userGoal;
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: {
+    text: TEXT_MODEL,
+    image: IMAGE_MODEL,
+    imageHighRes: IMAGE_HIGH_RES_MODEL
+  },
+  improvePrompt,
+  generateCreativeSuggestions,
+  generateImage,
+  editImage,
+  inpaintImage,
+  refineImage,
+  mergeLayers,
+  analyzeForDeepClean,
+  createMergePlan
+};
@@ -0,0 +1,208 @@
+import { AspectRatio, GenerationSettings, ImageSize, TaskType } from '../../types';
+import { ImageData, ImageProvider, RefinementContext, RequestOptions, toBase64Payload, wait } from '../imageProvider';
+import { ModelError } from '../errors';
+
+/**
+ * Offline stand-in for the Gemini backend. Every response is derived from a hash
+ * of its inputs, so the same request always yields the same text and pixels.
+ */
+
+const OUTPUT_BASE_SIZE: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+const SIMULATED_LATENCY_MS = 300;
+
+const SUGGESTION_STYLES: Record<TaskType, string[]> = {
+  generate: ['Cinematic wide shot', 'Soft watercolor study', 'Neon-lit night scene', 'Minimal studio product shot', 'Golden hour editorial'],
+  edit: ['Side-by-side layout', 'Integrated single scene', 'Layered collage', 'Grid with even spacing', 'Hero subject with supporting elements'],
+  clean: ['Remove UI only', 'Remove UI + extend background', 'Remove UI + isolate subject', 'Remove status and navigation bars', 'Full clutter strip'],
+  '3d': ['Cyberpunk Octane', 'Claymorphism', 'Hyper-realism', 'Low-poly render', 'Glossy plastic toy'],
+  inpaint: ['Match surrounding texture', 'Replace with clean background', 'Add a matching object', 'Repaint in the same style', 'Fill with soft bokeh'],
+  refine: ['Warmer color grade', 'Sharper details', 'Softer lighting', 'Tighter crop on the subject', 'Stronger contrast']
+};
+
+// Simulated round trip; reports the same phases a network provider would.
+const delay = async ({ signal, onPhase }: RequestOptions) => {
+  onPhase?.('uploading');
+  await wait(SIMULATED_LATENCY_MS / 3, signal);
+  onPhase?.('waiting');
+  await wait(SIMULATED_LATENCY_MS, signal);
+};
+
+// FNV-1a, good enough to spread prompts across the colour wheel.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG so shape placement is repeatable per seed.
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+const loadImage = (image: ImageData): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new ModelError("Failed to decode source image", { category: 'invalid_request' }));
+    img.src = `data:${image.mimeType};base64,${toBase64Payload(image.data)}`;
+  });
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  const label = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+  ctx.fillRect(0, height - 72, width, 72);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, width / 2, height - 36);
+};
+
+// Longest edge matches the requested size, the other follows the ratio.
+const getOutputDimensions = (aspectRatio: AspectRatio, imageSize: ImageSize) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const base = OUTPUT_BASE_SIZE[imageSize];
+  return w >= h
+    ? { width: base, height: Math.round(base * h / w) }
+    : { width: Math.round(base * w / h), height: base };
+};
+
+const drawProceduralImage = (prompt: string, width: number, height: number, variant: number): string => {
+  const seed = hashString(`${prompt}#${variant}`);
+  const random = createRandom(seed);
+  const { canvas, ctx } = createCanvas(width, height);
+  const unit = Math.min(width, height) / 1024;
+
+  const hue = seed % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 30%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 12; i++) {
+    ctx.globalAlpha = 0.25 + random() * 0.5;
+    ctx.fillStyle = `hsl(${(hue + random() * 180) % 360}, 80%, ${40 + random() * 40}%)`;
+    const x = random() * width;
+    const y = random() * height;
+    const size = (60 + random() * 240) * unit;
+    ctx.beginPath();
+    if (random() > 0.5) {
+      ctx.arc(x, y, size / 2, 0, Math.PI * 2);
+    } else {
+      ctx.rect(x - size / 2, y - size / 2, size, size);
+    }
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+
+  drawCaption(ctx, prompt, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+const improvePrompt = async (simplePrompt: string, options: RequestOptions = {}): Promise<string> => {
+  await delay(options);
+  return `${simplePrompt.trim()}, highly detailed, soft volumetric lighting, balanced composition, 8k`;
+};
+
+const generateCreativeSuggestions = async (prompt: string, imageCount: number, taskType: TaskType, options: RequestOptions = {}): Promise<string[]> => {
+  await delay(options);
+  const subject = prompt.trim() || (taskType === 'edit' ? `${imageCount} images` : 'the scene');
+  return SUGGESTION_STYLES[taskType].map(style => `${style}: ${subject}`);
+};
+
+const generateImage = async (prompt: string, settings: GenerationSettings, options: RequestOptions = {}): Promise<string[]> => {
+  await delay(options);
+  const { width, height } = getOutputDimensions(settings.aspectRatio, settings.imageSize);
+  return Array.from({ length: settings.candidateCount }, (_, idx) => drawProceduralImage(prompt, width, height, idx));
+};
+
+const editImage = async (images: ImageData[], instruction: string, preserveFidelity: boolean = false, options: RequestOptions = {}): Promise<string> => {
+  await delay(options);
+  if (images.length === 0) throw new ModelError("Failed to edit the image.", { category: 'invalid_request' });
+
+  const sources = await Promise.all(images.map(loadImage));
+  const base = sources[0];
+  const { canvas, ctx } = createCanvas(base.naturalWidth, base.naturalHeight);
+  ctx.drawImage(base, 0, 0);
+
+  // Extra sources are tiled along the top edge so every input stays visible.
+  const thumbWidth = canvas.width / Math.max(4, sources.length);
+  sources.slice(1).forEach((img, idx) => {
+    const thumbHeight = thumbWidth * (img.naturalHeight / img.naturalWidth);
+    ctx.drawImage(img, idx * thumbWidth, 0, thumbWidth, thumbHeight);
+  });
+
+  // A tint derived from the instruction makes distinct edits visibly different.
+  ctx.globalAlpha = preserveFidelity ? 0.12 : 0.25;
+  ctx.fillStyle = `hsl(${hashString(instruction) % 360}, 70%, 50%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalAlpha = 1;
+
+  drawCaption(ctx, instruction, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const inpaintImage = async (image: ImageData, mask: ImageData, instruction: string, options: RequestOptions = {}): Promise<string> => {
+  // A full-frame tint is enough; the service layer clips it to the mask.
+  return editImage([image], instruction, false, options);
+};
+
+const refineImage = async (baseImage: ImageData, previousTurns: RefinementContext[], instruction: string, options: RequestOptions = {}): Promise<string> => {
+  const current = previousTurns.length > 0 ? previousTurns[previousTurns.length - 1].result : baseImage;
+  return editImage([current], instruction, false, options);
+};
+
+const mergeLayers = async (sources: ImageData[], layoutReference: ImageData, instruction: string, layoutDescription: string, options: RequestOptions = {}): Promise<string> => {
+  // The composite already shows every layer in place, so it stands in for the merged result.
+  return editImage([layoutReference, ...sources], instruction, true, options);
+};
+
+const analyzeForDeepClean = async (image: ImageData, options: RequestOptions = {}): Promise<string> => {
+  await delay(options);
+  return "Regenerate this image exactly as is, but strictly REMOVE the status bar, navigation bar and floating buttons. EXTEND the background to fill the gaps left by the UI. KEEP the core subject exactly identical. Do not change the aspect ratio or crop.";
+};
+
+const createMergePlan = async (images: ImageData[], userGoal: string, options: RequestOptions = {}): Promise<string> => {
+  await delay(options);
+  const placements = images.map((_, idx) => `reference image ${idx + 1} placed in slot ${idx + 1} of ${images.length}`);
+  return `Create a composition using elements from the provided reference images... Goal: ${userGoal}. Include ${placements.join('; ')}. Preserve text legibility and original colors.`;
+};
+
+export const localProvider: ImageProvider = {
+  id: 'local',
+  label: 'Local Stand-in',
+  models: {
+    text: 'local-text',
+    image: 'local-canvas',
+    imageHighRes: 'local-canvas'
+  },
+  improvePrompt,
+  generateCreativeSuggestions,
+  generateImage,
+  editImage,
+  inpaintImage,
+  refineImage,
+  mergeLayers,
+  analyzeForDeepClean,
+  createMergePlan
+};
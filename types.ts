@@ -1,18 +1,56 @@
 
 export type AppTheme = 'light' | 'dark';
 
+export type TaskType = 'generate' | 'edit' | 'clean' | '3d' | 'inpaint' | 'refine';
+
+export type WorkflowPhase = 'analyzing' | 'planning' | 'compositing' | 'uploading' | 'waiting' | 'decoding' | 'saving';
+
+export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9' | '21:9';
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export interface GenerationSettings {
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  candidateCount: number;
+}
+
 export interface GeneratedImage {
   id: string;
   url: string;
   prompt: string;
   timestamp: number;
   type: 'generation' | 'edit';
+  settings?: GenerationSettings; // Only recorded for generations
+  sourceLayerIds?: string[]; // Canvas layers this result was derived from
+  taskType?: TaskType; // Missing on entries saved before it was recorded
+  model?: string;
+  sourceThumbnails?: string[]; // Small previews of the images the model was given
+  favorite?: boolean; // Favorites are never evicted to free storage
+  parentId?: string; // History entry this result was made from; missing for roots
+  instruction?: string; // Exact text sent to the model, e.g. the approved plan
+}
+
+export interface RefinementTurn {
+  id: string;
+  instruction: string;
+  resultUrl: string;
+  timestamp: number;
+}
+
+// A linear conversation of edits on one base image. activeIndex -1 means the base is showing.
+export interface RefinementThread {
+  baseUrl: string;
+  turns: RefinementTurn[];
+  activeIndex: number;
 }
 
 export interface AppError {
   id: string;
   message: string;
   details?: string;
+  category?: string; // ModelErrorCategory when the failure came from the service layer
+  guidance?: string;
 }
 
 export enum TabType {
@@ -21,9 +59,47 @@ export enum TabType {
   HISTORY = 'HISTORY'
 }
 
-export interface CanvasLayer {
+// Matches both CSS mix-blend-mode and canvas globalCompositeOperation names ('normal' is 'source-over')
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'color-dodge' | 'color-burn' | 'soft-light' | 'hard-light' | 'difference' | 'exclusion' | 'luminosity';
+
+export type CanvasBackground =
+  | { kind: 'color'; color: string }
+  | { kind: 'transparent' }
+  | { kind: 'image'; url: string }; // Drawn to cover the whole document
+
+// Document settings. Width/height are the logical units layers are positioned in;
+// exports are scaled so their longer edge is exportLongEdge pixels. Imported images are
+// downscaled to workingLongEdge, with the full-resolution original kept for export.
+export interface CanvasSettings {
+  width: number;
+  height: number;
+  background: CanvasBackground;
+  exportLongEdge: number;
+  workingLongEdge: number;
+}
+
+// Non-destructive pixel adjustments. Neutral values: 100 for the percentages, 0 for the rest.
+export interface LayerAdjustments {
+  brightness: number; // Percent
+  contrast: number; // Percent
+  saturation: number; // Percent
+  hue: number; // Degrees of hue rotation
+  blur: number; // Radius in the layer's own pixels
+  sharpen: number; // 0..1
+}
+
+// Visible part of an image, as fractions of the full source image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Geometry and compositing shared by every kind of layer. originalWidth/originalHeight are the
+// layer's intrinsic box: (cropped) pixel size for images, measured size for text, drawn size for shapes.
+interface BaseLayer {
   id: string;
-  url: string; // Base64
   x: number;
   y: number;
   scale: number;
@@ -32,4 +108,60 @@ export interface CanvasLayer {
   aspectRatio: number; // width / height
   originalWidth: number;
   originalHeight: number;
+  groupPath?: string[]; // Enclosing group ids, outermost first. Groups exist only through these paths
+  opacity?: number; // 0..1, defaults to 1
+  blendMode?: BlendMode; // Defaults to 'normal'
+  hidden?: boolean; // Hidden layers are neither drawn nor sent to the model
+  locked?: boolean; // Locked layers cannot be picked or moved on the canvas
+  flipX?: boolean;
+  flipY?: boolean;
+  adjustments?: LayerAdjustments; // Applied on screen and on export; the pixels in `url` are untouched
+}
+
+export interface ImageLayer extends BaseLayer {
+  kind: 'image';
+  url: string; // Base64 working copy, used on screen and sent to the model
+  sourceUrl?: string; // Full-resolution original when `url` was downscaled on import; used for export
+  crop?: CropRect; // Defaults to the whole image
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextLayer extends BaseLayer {
+  kind: 'text';
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  align: TextAlign;
+  strokeColor: string;
+  strokeWidth: number; // 0 for no outline
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse' | 'line' | 'arrow';
+
+export interface ShapeLayer extends BaseLayer {
+  kind: 'shape';
+  shape: ShapeKind;
+  fill: string | null; // null for no fill; ignored by lines and arrows
+  stroke: string;
+  strokeWidth: number;
+}
+
+export type CanvasLayer = ImageLayer | TextLayer | ShapeLayer;
+
+// Everything a .vmix project restores: the document, the layers and the editing context.
+export interface ProjectDocument {
+  name: string;
+  canvas: CanvasSettings;
+  layers: CanvasLayer[];
+  selectedLayerIds: string[];
+  prompt: string;
+}
+
+// Generated output that belongs to a project and travels with it in a .vmix package
+export interface ProjectResults {
+  history: GeneratedImage[];
+  lastResult: string | null;
 }
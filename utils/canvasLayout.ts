@@ -0,0 +1,231 @@
+import { BlendMode, CanvasLayer } from '../types';
+import { describeLayerContent } from './layerGraphics';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Describes where each layer sits on the canvas, in the same order the layers are sent
+ * to the model, so the prompt can refer to "Source image N".
+ */
+export const describeLayerLayout = (layers: CanvasLayer[], canvasWidth: number, canvasHeight: number): string => {
+  return layers.map((layer, idx) => {
+    const width = layer.originalWidth * layer.scale;
+    const height = layer.originalHeight * layer.scale;
+    const centerX = (layer.x + width / 2) / canvasWidth;
+    const centerY = (layer.y + height / 2) / canvasHeight;
+    const rotation = Math.round(layer.rotation);
+    const depth = idx === 0 ? ' (back)' : idx === layers.length - 1 ? ' (front)' : '';
+    const opacity = layer.opacity ?? 1;
+    const blend = layer.blendMode && layer.blendMode !== 'normal' ? `, blended onto the layers below with "${layer.blendMode}"` : '';
+
+    return `- Source image ${idx + 1} (${describeLayerContent(layer)}, ${layer.originalWidth}x${layer.originalHeight}px): center at ${percent(centerX)} from left and ${percent(centerY)} from top, `
+      + `${percent(width / canvasWidth)} of canvas width by ${percent(height / canvasHeight)} of canvas height, `
+      + `${rotation === 0 ? 'not rotated' : `rotated ${Math.abs(rotation)}° ${rotation > 0 ? 'clockwise' : 'counter-clockwise'}`}, `
+      + `stacking order ${idx + 1} of ${layers.length}${depth}`
+      + `${opacity < 1 ? `, ${percent(opacity)} opacity` : ''}${blend}.`;
+  }).join('\n');
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Layers rotate around their own center; x/y is the top-left of the unrotated box.
+export const getLayerCenter = (layer: CanvasLayer): Point => ({
+  x: layer.x + (layer.originalWidth * layer.scale) / 2,
+  y: layer.y + (layer.originalHeight * layer.scale) / 2
+});
+
+export const rotatePoint = (point: Point, center: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+export const getLayerCorners = (layer: CanvasLayer): Point[] => {
+  const width = layer.originalWidth * layer.scale;
+  const height = layer.originalHeight * layer.scale;
+  const center = getLayerCenter(layer);
+  return [
+    { x: layer.x, y: layer.y },
+    { x: layer.x + width, y: layer.y },
+    { x: layer.x + width, y: layer.y + height },
+    { x: layer.x, y: layer.y + height }
+  ].map(corner => rotatePoint(corner, center, layer.rotation));
+};
+
+/** Axis-aligned box around the rotated footprint of every given layer. */
+export const getSelectionBounds = (layers: CanvasLayer[]): Bounds | null => {
+  if (layers.length === 0) return null;
+  const corners = layers.flatMap(getLayerCorners);
+  return {
+    minX: Math.min(...corners.map(p => p.x)),
+    minY: Math.min(...corners.map(p => p.y)),
+    maxX: Math.max(...corners.map(p => p.x)),
+    maxY: Math.max(...corners.map(p => p.y))
+  };
+};
+
+export const getBoundsCenter = (bounds: Bounds): Point => ({
+  x: (bounds.minX + bounds.maxX) / 2,
+  y: (bounds.minY + bounds.maxY) / 2
+});
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+// Re-derives x/y from a new center so the box stays centered where the transform put it.
+const placeCenter = (layer: CanvasLayer, center: Point, scale: number): CanvasLayer => ({
+  ...layer,
+  scale,
+  x: center.x - (layer.originalWidth * scale) / 2,
+  y: center.y - (layer.originalHeight * scale) / 2
+});
+
+/** Scales the listed layers about a shared pivot, moving their centers along with their size. */
+export const scaleLayersAround = (layers: CanvasLayer[], ids: string[], pivot: Point, factor: number): CanvasLayer[] => {
+  return layers.map(layer => {
+    if (!ids.includes(layer.id)) return layer;
+    const center = getLayerCenter(layer);
+    return placeCenter(
+      layer,
+      { x: pivot.x + (center.x - pivot.x) * factor, y: pivot.y + (center.y - pivot.y) * factor },
+      layer.scale * factor
+    );
+  });
+};
+
+/** Rotates the listed layers about a shared pivot, orbiting their centers and turning each layer. */
+export const rotateLayersAround = (layers: CanvasLayer[], ids: string[], pivot: Point, degrees: number): CanvasLayer[] => {
+  return layers.map(layer => {
+    if (!ids.includes(layer.id)) return layer;
+    const rotated = placeCenter(layer, rotatePoint(getLayerCenter(layer), pivot, degrees), layer.scale);
+    return { ...rotated, rotation: normalizeRotation(layer.rotation + degrees) };
+  });
+};
+
+// Keeps rotation within the -180..180 range the toolbar slider uses.
+export const normalizeRotation = (degrees: number) => {
+  const wrapped = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+};
+
+/**
+ * Clicking a grouped layer selects its outermost group, so groups move as one piece.
+ */
+export const getSelectionUnit = (layers: CanvasLayer[], layer: CanvasLayer): string[] => {
+  const rootGroup = layer.groupPath?.[0];
+  if (!rootGroup) return [layer.id];
+  return layers.filter(l => l.groupPath?.[0] === rootGroup).map(l => l.id);
+};
+
+/** Wraps the listed layers (and any groups they already belong to) in a new outer group. */
+export const groupLayers = (layers: CanvasLayer[], ids: string[], groupId: string): CanvasLayer[] => {
+  return layers.map(layer => ids.includes(layer.id)
+    ? { ...layer, groupPath: [groupId, ...(layer.groupPath ?? [])] }
+    : layer);
+};
+
+/** Removes the outermost group of the listed layers, leaving any nested groups intact. */
+export const ungroupLayers = (layers: CanvasLayer[], ids: string[]): CanvasLayer[] => {
+  return layers.map(layer => {
+    if (!ids.includes(layer.id) || !layer.groupPath?.length) return layer;
+    const groupPath = layer.groupPath.slice(1);
+    return { ...layer, groupPath: groupPath.length > 0 ? groupPath : undefined };
+  });
+};
+
+export interface SnapTargets {
+  x: number[];
+  y: number[];
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: { x: number[]; y: number[] }; // Canvas coordinates of the lines that caught the box
+}
+
+/**
+ * Snap lines for a drag: canvas edges and center, the edges and centers of every layer
+ * that is not moving, and optionally every grid line.
+ */
+export const getSnapTargets = (others: CanvasLayer[], canvasWidth: number, canvasHeight: number, gridSpacing?: number): SnapTargets => {
+  const targets: SnapTargets = { x: [0, canvasWidth / 2, canvasWidth], y: [0, canvasHeight / 2, canvasHeight] };
+  others.forEach(layer => {
+    const bounds = getSelectionBounds([layer])!;
+    const center = getBoundsCenter(bounds);
+    targets.x.push(bounds.minX, center.x, bounds.maxX);
+    targets.y.push(bounds.minY, center.y, bounds.maxY);
+  });
+  if (gridSpacing && gridSpacing > 0) {
+    for (let x = gridSpacing; x < canvasWidth; x += gridSpacing) targets.x.push(x);
+    for (let y = gridSpacing; y < canvasHeight; y += gridSpacing) targets.y.push(y);
+  }
+  return targets;
+};
+
+const snapAxis = (edges: number[], targets: number[], threshold: number) => {
+  let best: { offset: number; line: number } | null = null;
+  for (const edge of edges) {
+    for (const line of targets) {
+      const offset = line - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, line };
+      }
+    }
+  }
+  return best;
+};
+
+/** Finds the smallest nudge that lines up an edge or the center of the box with a snap target on each axis. */
+export const snapBounds = (bounds: Bounds, targets: SnapTargets, threshold: number): SnapResult => {
+  const center = getBoundsCenter(bounds);
+  const snapX = snapAxis([bounds.minX, center.x, bounds.maxX], targets.x, threshold);
+  const snapY = snapAxis([bounds.minY, center.y, bounds.maxY], targets.y, threshold);
+  return {
+    dx: snapX?.offset ?? 0,
+    dy: snapY?.offset ?? 0,
+    guides: { x: snapX ? [snapX.line] : [], y: snapY ? [snapY.line] : [] }
+  };
+};
+
+/** Snaps an absolute angle to the nearest multiple of `step` degrees. */
+export const snapAngle = (degrees: number, step: number) => Math.round(degrees / step) * step;
+
+export const BLEND_MODES: BlendMode[] = ['normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'soft-light', 'hard-light', 'difference', 'exclusion', 'luminosity'];
+
+/** Canvas 2D spelling of a layer's blend mode. */
+export const toCompositeOperation = (mode: BlendMode = 'normal'): GlobalCompositeOperation =>
+  mode === 'normal' ? 'source-over' : mode;
+
+/**
+ * Copies layers with fresh ids, offset by (dx, dy). Groups inside the copy get fresh ids as well,
+ * so a duplicate keeps its own nesting without joining the original's groups.
+ */
+export const cloneLayers = (source: CanvasLayer[], dx: number, dy: number): CanvasLayer[] => {
+  const newId = () => Math.random().toString(36).substr(2, 9);
+  const groupIds = new Map<string, string>();
+  const remapGroup = (groupId: string) => {
+    if (!groupIds.has(groupId)) groupIds.set(groupId, newId());
+    return groupIds.get(groupId)!;
+  };
+  return source.map(layer => ({
+    ...layer,
+    id: newId(),
+    x: layer.x + dx,
+    y: layer.y + dy,
+    groupPath: layer.groupPath?.map(remapGroup)
+  }));
+};
@@ -0,0 +1,136 @@
+import { GeneratedImage, TaskType } from '../types';
+
+export const HISTORY_LIMIT = 200; // Per project; the oldest non-favorites go first
+const QUOTA_HIGH_WATER = 0.9; // Share of the browser quota at which history starts to be trimmed
+const QUOTA_EVICTION_SHARE = 0.25; // Share of this project's evictable history bytes freed per trim
+
+export type HistoryDateRange = 'all' | 'day' | 'week' | 'month';
+
+export interface HistoryFilters {
+  query: string;
+  type: GeneratedImage['type'] | 'all';
+  taskType: TaskType | 'all';
+  dateRange: HistoryDateRange;
+  favoritesOnly: boolean;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  type: 'all',
+  taskType: 'all',
+  dateRange: 'all',
+  favoritesOnly: false
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_MS: Record<Exclude<HistoryDateRange, 'all'>, number> = { day: DAY_MS, week: 7 * DAY_MS, month: 30 * DAY_MS };
+
+/** Entries matching every filter. The query must match all of its words, in any order, in the prompt or instruction. */
+export const filterHistory = (entries: GeneratedImage[], filters: HistoryFilters, now = Date.now()): GeneratedImage[] => {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    if (filters.type !== 'all' && entry.type !== filters.type) return false;
+    if (filters.taskType !== 'all' && entry.taskType !== filters.taskType) return false;
+    if (filters.dateRange !== 'all' && now - entry.timestamp > RANGE_MS[filters.dateRange]) return false;
+    if (filters.favoritesOnly && !entry.favorite) return false;
+    const text = `${entry.prompt} ${entry.instruction ?? ''}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+export interface VersionNode {
+  entry: GeneratedImage;
+  children: VersionNode[];
+}
+
+/**
+ * Arranges history into lineage trees, oldest first at every level. Entries whose parent was
+ * deleted or evicted become roots of their own tree.
+ */
+export const buildVersionTree = (entries: GeneratedImage[]): VersionNode[] => {
+  const nodes = new Map(entries.map(entry => [entry.id, { entry, children: [] } as VersionNode]));
+  const roots: VersionNode[] = [];
+  [...entries].sort((a, b) => a.timestamp - b.timestamp).forEach(entry => {
+    const node = nodes.get(entry.id)!;
+    const parent = entry.parentId ? nodes.get(entry.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  return roots;
+};
+
+/** The entry and its ancestors, root first. Stops at a missing parent or a cycle. */
+export const getLineage = (entries: GeneratedImage[], id: string): GeneratedImage[] => {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const lineage: GeneratedImage[] = [];
+  let current = byId.get(id);
+  while (current && !lineage.includes(current)) {
+    lineage.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return lineage;
+};
+
+/** Entries sharing a parent with the given one, including itself, oldest first. Roots have no siblings. */
+export const getSiblings = (entries: GeneratedImage[], entry: GeneratedImage): GeneratedImage[] =>
+  entry.parentId
+    ? entries.filter(other => other.parentId === entry.parentId).sort((a, b) => a.timestamp - b.timestamp)
+    : [entry];
+
+/** Drops the `count` oldest entries that are not favorites. */
+export const evictOldest = (entries: GeneratedImage[], count: number): GeneratedImage[] => {
+  if (count <= 0) return entries;
+  const evicted = new Set(
+    entries.filter(entry => !entry.favorite).sort((a, b) => a.timestamp - b.timestamp).slice(0, count).map(entry => entry.id)
+  );
+  return entries.filter(entry => !evicted.has(entry.id));
+};
+
+/** Keeps the history within HISTORY_LIMIT. */
+export const capHistory = (entries: GeneratedImage[]): GeneratedImage[] =>
+  evictOldest(entries, entries.length - HISTORY_LIMIT);
+
+// Approximate stored size of an entry: its base64 images dominate
+export const estimateEntryBytes = (entry: GeneratedImage): number =>
+  [entry.url, ...(entry.sourceThumbnails ?? [])].reduce((sum, url) => sum + Math.round(url.length * 0.75), 0);
+
+export const estimateHistoryBytes = (entries: GeneratedImage[]): number =>
+  entries.reduce((sum, entry) => sum + estimateEntryBytes(entry), 0);
+
+/** Drops the oldest non-favorites until at least `bytes` of history is freed, or none are left. */
+export const evictBytes = (entries: GeneratedImage[], bytes: number): GeneratedImage[] => {
+  let freed = 0;
+  let count = 0;
+  for (const entry of entries.filter(entry => !entry.favorite).sort((a, b) => a.timestamp - b.timestamp)) {
+    if (freed >= bytes) break;
+    freed += estimateEntryBytes(entry);
+    count++;
+  }
+  return evictOldest(entries, count);
+};
+
+/**
+ * Frees a share of this project's own evictable history, for when the browser runs out of storage.
+ * The target comes from the project's size, not the origin's usage, which other projects share.
+ */
+export const evictForQuota = (entries: GeneratedImage[]): GeneratedImage[] =>
+  evictBytes(entries, estimateHistoryBytes(entries.filter(entry => !entry.favorite)) * QUOTA_EVICTION_SHARE);
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+};
+
+export const isNearQuota = (storage: StorageUsage) => storage.usage / storage.quota > QUOTA_HIGH_WATER;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,99 @@
+import { loadImage } from './imageUtils';
+
+// Formats the model services accept inline; anything else is re-encoded on import.
+const MODEL_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+// Formats every browser draws and the models accept, so the original file can serve as the full-resolution source
+const PASSTHROUGH_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MODEL_MAX_BYTES = 20 * 1024 * 1024; // Inline request limit
+const MODEL_MIN_SIDE = 32;
+const JPEG_QUALITY = 0.92;
+
+export interface IngestedImage {
+  url: string; // Working copy, at most `workingLongEdge` on its longer side
+  sourceUrl?: string; // Full-resolution original, only kept when the working copy was downscaled
+  width: number;
+  height: number;
+  warnings: string[];
+}
+
+/**
+ * Decodes a file with its EXIF orientation applied. GIFs yield their first frame.
+ * Browsers without `imageOrientation` support fall back to an <img>, which also honours EXIF.
+ */
+const decodeOriented = async (file: File): Promise<CanvasImageSource & { width: number; height: number }> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (err) {
+    const objectUrl = URL.createObjectURL(file);
+    try {
+      const img = await loadImage(objectUrl);
+      return Object.assign(img, { width: img.naturalWidth, height: img.naturalHeight });
+    } catch (fallbackErr) {
+      throw new Error(`${file.name} could not be decoded. This browser may not support ${file.type || 'its format'}.`);
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  }
+};
+
+const encode = (source: CanvasImageSource, width: number, height: number, mimeType: string): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL(mimeType, JPEG_QUALITY);
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`${file.name} could not be read.`));
+    reader.readAsDataURL(file);
+  });
+
+// Approximate decoded size of a base64 data URL
+const dataUrlBytes = (url: string) => Math.round((url.length - url.indexOf(',') - 1) * 3 / 4);
+
+/**
+ * Turns a user file into layer pixels: orientation is baked in, exotic formats (AVIF, GIF, BMP…)
+ * are re-encoded, and large photos are downscaled so undo snapshots and model requests stay small.
+ */
+export const ingestImageFile = async (file: File, workingLongEdge: number): Promise<IngestedImage> => {
+  const source = await decodeOriented(file);
+  const warnings: string[] = [];
+
+  // JPEGs stay JPEG to keep them compact; everything else goes to PNG to keep transparency
+  const mimeType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  if (file.type === 'image/gif') {
+    warnings.push(`${file.name}: only the first frame of a GIF is used.`);
+  } else if (!MODEL_MIME_TYPES.includes(file.type)) {
+    warnings.push(`${file.name}: ${file.type || 'this format'} is not accepted by the model, so it was converted to PNG.`);
+  }
+
+  const ratio = Math.min(1, workingLongEdge / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * ratio));
+  const height = Math.max(1, Math.round(source.height * ratio));
+  const url = encode(source, width, height, mimeType);
+  // Re-encoding the original would inflate compressed formats several times over, so those are kept as-is.
+  // Browsers apply EXIF orientation when drawing them, matching the working copy.
+  let sourceUrl: string | undefined;
+  if (ratio < 1) {
+    sourceUrl = PASSTHROUGH_MIME_TYPES.includes(file.type)
+      ? await readAsDataUrl(file)
+      : encode(source, source.width, source.height, mimeType);
+  }
+  if ('close' in source) source.close();
+
+  if (Math.min(width, height) < MODEL_MIN_SIDE) {
+    warnings.push(`${file.name}: at ${width}×${height}px it is too small for the model to make out detail.`);
+  }
+  if (dataUrlBytes(url) > MODEL_MAX_BYTES) {
+    warnings.push(`${file.name}: still larger than ${MODEL_MAX_BYTES / (1024 * 1024)} MB after import, so the model will reject it. Lower the working resolution.`);
+  }
+
+  return { url, sourceUrl, width, height, warnings };
+};
@@ -0,0 +1,129 @@
+/**
+ * Loads a URL into an <img> and waits until its pixels are decoded.
+ */
+export const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = src;
+  try {
+    await img.decode();
+  } catch (err) {
+    throw new Error("Failed to decode image");
+  }
+  return img;
+};
+
+/**
+ * Splits a data URL into the `{ data, mimeType }` shape the model services expect.
+ */
+export const dataUrlToImageData = (url: string): { data: string; mimeType: string } => {
+  const match = url.match(/^data:([^;,]+)[;,]/);
+  return { data: url, mimeType: match ? match[1] : 'image/png' };
+};
+
+const MASK_FEATHER_PX = 4;
+
+/**
+ * Pastes `generatedUrl` over `originalUrl` only where `maskUrl` is white, so pixels outside
+ * the mask stay untouched even if the model redrew them. Output matches the original size.
+ */
+export const compositeMaskedResult = async (originalUrl: string, generatedUrl: string, maskUrl: string): Promise<string> => {
+  const [original, generated, mask] = await Promise.all([loadImage(originalUrl), loadImage(generatedUrl), loadImage(maskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // Turn the black/white mask into an alpha channel
+  const alpha = document.createElement('canvas');
+  alpha.width = width;
+  alpha.height = height;
+  const actx = alpha.getContext('2d');
+  if (!actx) throw new Error("Could not get canvas context");
+  actx.drawImage(mask, 0, 0, width, height);
+  const pixels = actx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  actx.putImageData(pixels, 0, 0);
+
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const pctx = patch.getContext('2d');
+  if (!pctx) throw new Error("Could not get canvas context");
+  pctx.filter = `blur(${MASK_FEATHER_PX}px)`; // Soften the seam
+  pctx.drawImage(alpha, 0, 0);
+  pctx.filter = 'none';
+  pctx.globalCompositeOperation = 'source-in';
+  pctx.drawImage(generated, 0, 0, width, height);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const octx = output.getContext('2d');
+  if (!octx) throw new Error("Could not get canvas context");
+  octx.drawImage(original, 0, 0);
+  octx.drawImage(patch, 0, 0);
+  return output.toDataURL('image/png');
+};
+
+/**
+ * Draws `img` so it fills a `width`×`height` area, cropping the overflow evenly
+ * (the canvas equivalent of CSS `background-size: cover`).
+ */
+export const drawImageCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const drawWidth = img.naturalWidth * scale;
+  const drawHeight = img.naturalHeight * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/**
+ * Downloads an image link (http(s) or data URL) as a File, so dropped links go through
+ * the same import path as dropped files. Cross-origin pages must allow the request.
+ */
+export const fetchImageFile = async (url: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new Error("Could not download the image. The site may not allow other pages to load it; save it and drop the file instead.");
+  }
+  if (!response.ok) throw new Error(`Could not download the image (HTTP ${response.status}).`);
+
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) throw new Error("The dropped link does not point to an image.");
+  const name = url.startsWith('data:') ? 'image' : (new URL(url).pathname.split('/').pop() || 'image');
+  return new File([blob], name, { type: blob.type });
+};
+
+/**
+ * Finds an image link in dropped data: a URI list from another tab or an <img> from the app,
+ * the `src` of dragged HTML, or a plain-text link.
+ */
+export const getDroppedImageUrl = (data: DataTransfer): string | null => {
+  const uriList = data.getData('text/uri-list').split('\n').map(line => line.trim()).find(line => line && !line.startsWith('#'));
+  if (uriList) return uriList;
+
+  const html = data.getData('text/html');
+  const src = html && new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.getAttribute('src');
+  if (src) return src;
+
+  const text = data.getData('text/plain').trim();
+  return /^(https?:\/\/|data:image\/)/i.test(text) ? text : null;
+};
+
+/**
+ * Small JPEG preview of an image, at most `maxSide` pixels on its longer edge.
+ */
+export const createThumbnail = async (url: string, maxSide = 160): Promise<string> => {
+  const img = await loadImage(url);
+  const ratio = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.fillStyle = '#ffffff'; // JPEG has no alpha
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
@@ -0,0 +1,147 @@
+import { CanvasLayer, CropRect, ImageLayer, LayerAdjustments } from '../types';
+import { loadImage } from './imageUtils';
+import { getLayerSource, rasterizeLayer } from './layerGraphics';
+
+export const DEFAULT_ADJUSTMENTS: LayerAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  blur: 0,
+  sharpen: 0
+};
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const isNeutral = (adjustments?: LayerAdjustments) =>
+  !adjustments || (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof LayerAdjustments)[]).every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+
+const isFullCrop = (crop?: CropRect) =>
+  !crop || (crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1);
+
+/** True when the layer has a crop, flip or adjustment that changes how it is drawn. */
+export const hasLayerEdits = (layer: CanvasLayer): boolean =>
+  !!layer.flipX || !!layer.flipY || !isNeutral(layer.adjustments) || (layer.kind === 'image' && !isFullCrop(layer.crop));
+
+/**
+ * CSS / canvas `filter` for everything except sharpen, which neither supports natively.
+ * `blurScale` converts the layer's own pixels into the pixels being drawn.
+ */
+export const getAdjustmentFilter = (adjustments: LayerAdjustments | undefined, blurScale: number): string => {
+  if (isNeutral(adjustments)) return 'none';
+  const { brightness, contrast, saturation, hue, blur } = adjustments!;
+  return [
+    brightness !== 100 && `brightness(${brightness}%)`,
+    contrast !== 100 && `contrast(${contrast}%)`,
+    saturation !== 100 && `saturate(${saturation}%)`,
+    hue !== 0 && `hue-rotate(${hue}deg)`,
+    blur > 0 && `blur(${blur * blurScale}px)`
+  ].filter(Boolean).join(' ') || 'none';
+};
+
+/** 3×3 unsharp kernel, shared by the on-screen SVG filter and the export convolution. */
+export const getSharpenKernel = (amount: number): number[] => [
+  0, -amount, 0,
+  -amount, 1 + 4 * amount, -amount,
+  0, -amount, 0
+];
+
+const sharpenCanvas = (ctx: CanvasRenderingContext2D, width: number, height: number, amount: number) => {
+  const kernel = getSharpenKernel(amount);
+  const source = ctx.getImageData(0, 0, width, height);
+  const output = ctx.createImageData(width, height);
+  const src = source.data;
+  const out = output.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          const sy = Math.min(height - 1, Math.max(0, y + ky));
+          for (let kx = -1; kx <= 1; kx++) {
+            const sx = Math.min(width - 1, Math.max(0, x + kx));
+            sum += src[(sy * width + sx) * 4 + c] * kernel[(ky + 1) * 3 + kx + 1];
+          }
+        }
+        out[i + c] = sum; // Clamped by Uint8ClampedArray
+      }
+      out[i + 3] = src[i + 3];
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+};
+
+/**
+ * Draws a layer's source with its crop, flip and adjustments into a new `width`×`height` canvas.
+ * `blurScale` is the ratio of output pixels to the layer's own pixels.
+ */
+export const renderLayerPixels = (img: HTMLImageElement, layer: CanvasLayer, width: number, height: number, blurScale: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const crop = (layer.kind === 'image' && layer.crop) || FULL_CROP;
+  ctx.filter = getAdjustmentFilter(layer.adjustments, blurScale);
+  ctx.translate(layer.flipX ? canvas.width : 0, layer.flipY ? canvas.height : 0);
+  ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
+  ctx.drawImage(
+    img,
+    crop.x * img.naturalWidth, crop.y * img.naturalHeight, crop.width * img.naturalWidth, crop.height * img.naturalHeight,
+    0, 0, canvas.width, canvas.height
+  );
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.filter = 'none';
+
+  const sharpen = layer.adjustments?.sharpen ?? 0;
+  if (sharpen > 0) sharpenCanvas(ctx, canvas.width, canvas.height, sharpen);
+  return canvas;
+};
+
+/**
+ * Like `rasterizeLayer`, but with crop, flip and adjustments applied, so the model sees what
+ * the canvas shows. Layers without edits are passed through untouched.
+ */
+export const rasterizeEditedLayer = async (layer: CanvasLayer, pixelRatio = 1): Promise<string> => {
+  if (!hasLayerEdits(layer)) return rasterizeLayer(layer, pixelRatio);
+  const img = await loadImage(getLayerSource(layer));
+  return renderLayerPixels(img, layer, layer.originalWidth * pixelRatio, layer.originalHeight * pixelRatio, pixelRatio).toDataURL('image/png');
+};
+
+/**
+ * Applies a new crop while keeping the visible pixels where they are on the canvas:
+ * the box shrinks or grows around the kept region, honouring the layer's flip and rotation.
+ */
+export const applyCrop = (layer: ImageLayer, crop: CropRect): Partial<ImageLayer> => {
+  const current = layer.crop ?? FULL_CROP;
+  const fullWidth = layer.originalWidth / current.width;
+  const fullHeight = layer.originalHeight / current.height;
+  const width = fullWidth * crop.width;
+  const height = fullHeight * crop.height;
+
+  // Movement of the crop's center in source pixels, mirrored by any flip, then placed on the canvas
+  const shiftX = ((crop.x + crop.width / 2) - (current.x + current.width / 2)) * fullWidth * (layer.flipX ? -1 : 1) * layer.scale;
+  const shiftY = ((crop.y + crop.height / 2) - (current.y + current.height / 2)) * fullHeight * (layer.flipY ? -1 : 1) * layer.scale;
+  const rad = (layer.rotation * Math.PI) / 180;
+  const centerX = layer.x + (layer.originalWidth * layer.scale) / 2 + shiftX * Math.cos(rad) - shiftY * Math.sin(rad);
+  const centerY = layer.y + (layer.originalHeight * layer.scale) / 2 + shiftX * Math.sin(rad) + shiftY * Math.cos(rad);
+
+  return {
+    crop: isFullCrop(crop) ? undefined : crop,
+    x: centerX - (width * layer.scale) / 2,
+    y: centerY - (height * layer.scale) / 2,
+    originalWidth: width,
+    originalHeight: height,
+    aspectRatio: width / height
+  };
+};
+
+/** Updates that clear every crop, flip and adjustment on the layer. */
+export const resetLayerEdits = (layer: CanvasLayer): Partial<CanvasLayer> => ({
+  ...(layer.kind === 'image' ? applyCrop(layer, FULL_CROP) : {}),
+  flipX: undefined,
+  flipY: undefined,
+  adjustments: undefined
+});
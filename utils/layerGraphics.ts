@@ -0,0 +1,177 @@
+import { CanvasLayer, ImageLayer, ShapeKind, ShapeLayer, TextLayer } from '../types';
+import { loadImage } from './imageUtils';
+
+// System font stacks only: text is drawn through SVG images, which cannot load web fonts.
+export const FONT_FAMILIES: { label: string; value: string }[] = [
+  { label: 'Sans', value: 'Arial, Helvetica, sans-serif' },
+  { label: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'Mono', value: '"Courier New", Courier, monospace' },
+  { label: 'Display', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'Rounded', value: '"Trebuchet MS", Verdana, sans-serif' }
+];
+
+export const SHAPE_KINDS: ShapeKind[] = ['rectangle', 'ellipse', 'line', 'arrow'];
+
+export const DEFAULT_TEXT_STYLE: Pick<TextLayer, 'fontFamily' | 'fontSize' | 'fontWeight' | 'color' | 'align' | 'strokeColor' | 'strokeWidth'> = {
+  fontFamily: FONT_FAMILIES[0].value,
+  fontSize: 48,
+  fontWeight: 700,
+  color: '#0f172a',
+  align: 'center',
+  strokeColor: '#ffffff',
+  strokeWidth: 0
+};
+
+export const DEFAULT_SHAPE_SIZE: Record<ShapeKind, { width: number; height: number }> = {
+  rectangle: { width: 200, height: 140 },
+  ellipse: { width: 180, height: 180 },
+  line: { width: 220, height: 24 },
+  arrow: { width: 220, height: 48 }
+};
+
+export const TEXT_PADDING = 8;
+export const LINE_HEIGHT = 1.2;
+const ASCENT = 0.8; // Baseline offset as a share of the font size
+
+type TextMetricsInput = Pick<TextLayer, 'text' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'strokeWidth'>;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** Box a text layer needs at scale 1, including padding and outline. */
+export const measureText = (layer: TextMetricsInput): { width: number; height: number } => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  const lines = layer.text.split('\n');
+  let widest = layer.fontSize; // Keeps empty text grabbable
+  if (measureContext) {
+    measureContext.font = `${layer.fontWeight} ${layer.fontSize}px ${layer.fontFamily}`;
+    lines.forEach(line => { widest = Math.max(widest, measureContext!.measureText(line).width); });
+  }
+  const inset = TEXT_PADDING + layer.strokeWidth;
+  return {
+    width: Math.ceil(widest + inset * 2),
+    height: Math.ceil(lines.length * layer.fontSize * LINE_HEIGHT + inset * 2)
+  };
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const textMarkup = (layer: TextLayer) => {
+  const inset = TEXT_PADDING + layer.strokeWidth;
+  const anchorX = layer.align === 'left' ? inset : layer.align === 'right' ? layer.originalWidth - inset : layer.originalWidth / 2;
+  const anchor = layer.align === 'left' ? 'start' : layer.align === 'right' ? 'end' : 'middle';
+  const stroke = layer.strokeWidth > 0
+    ? ` stroke="${escapeXml(layer.strokeColor)}" stroke-width="${layer.strokeWidth * 2}" stroke-linejoin="round" paint-order="stroke"`
+    : '';
+  const lines = layer.text.split('\n').map((line, idx) => {
+    const y = inset + (idx * LINE_HEIGHT + ASCENT) * layer.fontSize;
+    return `<tspan x="${anchorX}" y="${y}">${escapeXml(line) || ' '}</tspan>`;
+  }).join('');
+
+  return `<text font-family="${escapeXml(layer.fontFamily)}" font-size="${layer.fontSize}" font-weight="${layer.fontWeight}" `
+    + `fill="${escapeXml(layer.color)}" text-anchor="${anchor}" xml:space="preserve"${stroke}>${lines}</text>`;
+};
+
+const shapeMarkup = (layer: ShapeLayer) => {
+  const w = layer.originalWidth;
+  const h = layer.originalHeight;
+  const sw = layer.strokeWidth;
+  const half = sw / 2;
+  const fill = layer.fill ? escapeXml(layer.fill) : 'none';
+  const stroke = `stroke="${escapeXml(layer.stroke)}" stroke-width="${sw}"`;
+
+  switch (layer.shape) {
+    case 'rectangle':
+      return `<rect x="${half}" y="${half}" width="${Math.max(0, w - sw)}" height="${Math.max(0, h - sw)}" fill="${fill}" ${stroke} />`;
+    case 'ellipse':
+      return `<ellipse cx="${w / 2}" cy="${h / 2}" rx="${Math.max(0, w / 2 - half)}" ry="${Math.max(0, h / 2 - half)}" fill="${fill}" ${stroke} />`;
+    case 'line':
+      return `<line x1="${half}" y1="${h / 2}" x2="${w - half}" y2="${h / 2}" ${stroke} stroke-linecap="round" />`;
+    case 'arrow': {
+      const head = Math.min(h / 2, Math.max(sw * 3, 12));
+      return `<line x1="${half}" y1="${h / 2}" x2="${w - half - head / 2}" y2="${h / 2}" ${stroke} stroke-linecap="round" />`
+        + `<polygon points="${w - half},${h / 2} ${w - half - head},${h / 2 - head} ${w - half - head},${h / 2 + head}" fill="${escapeXml(layer.stroke)}" />`;
+    }
+  }
+};
+
+/**
+ * Image source for a layer. Text and shapes become SVG data URLs sized to their intrinsic box,
+ * so the canvas, the thumbnails and the exported composite all draw the same thing.
+ */
+export const getLayerSource = (layer: CanvasLayer): string => {
+  if (layer.kind === 'image') return layer.url;
+  const body = layer.kind === 'text' ? textMarkup(layer) : shapeMarkup(layer);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${layer.originalWidth}" height="${layer.originalHeight}" `
+    + `viewBox="0 0 ${layer.originalWidth} ${layer.originalHeight}">${body}</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+/**
+ * PNG data URL of a layer at its intrinsic size times `pixelRatio`, for the model services,
+ * which do not accept SVG. Image layers are returned as they are.
+ */
+export const rasterizeLayer = async (layer: CanvasLayer, pixelRatio = 1): Promise<string> => {
+  if (layer.kind === 'image') return layer.url;
+
+  const img = await loadImage(getLayerSource(layer));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(layer.originalWidth * pixelRatio);
+  canvas.height = Math.round(layer.originalHeight * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/** Short human label, used by the layer panel and the layout description. */
+export const describeLayerContent = (layer: CanvasLayer): string => {
+  if (layer.kind === 'text') return `text reading "${layer.text.replace(/\s+/g, ' ').trim()}"`;
+  if (layer.kind === 'shape') return `${layer.shape} shape`;
+  return 'image';
+};
+
+/**
+ * Applies text or style changes and re-measures the box. The edge the text is aligned to
+ * stays put, so typing grows a centered label from its middle.
+ */
+export const applyTextChanges = (layer: TextLayer, updates: Partial<TextLayer>): TextLayer => {
+  const next = { ...layer, ...updates };
+  const { width, height } = measureText(next);
+  const anchor = next.align === 'left' ? 0 : next.align === 'right' ? 1 : 0.5;
+  return {
+    ...next,
+    x: layer.x + (layer.originalWidth - width) * layer.scale * anchor,
+    originalWidth: width,
+    originalHeight: height,
+    aspectRatio: width / height
+  };
+};
+
+/**
+ * Swaps a layer's content for a raster image of the same (uncropped) pixel size, keeping its
+ * geometry, compositing settings and non-destructive edits.
+ */
+export const toImageLayer = (layer: CanvasLayer, url: string): ImageLayer => ({
+  id: layer.id,
+  kind: 'image',
+  url,
+  x: layer.x,
+  y: layer.y,
+  scale: layer.scale,
+  rotation: layer.rotation,
+  zIndex: layer.zIndex,
+  aspectRatio: layer.aspectRatio,
+  originalWidth: layer.originalWidth,
+  originalHeight: layer.originalHeight,
+  groupPath: layer.groupPath,
+  opacity: layer.opacity,
+  blendMode: layer.blendMode,
+  hidden: layer.hidden,
+  locked: layer.locked,
+  flipX: layer.flipX,
+  flipY: layer.flipY,
+  adjustments: layer.adjustments,
+  crop: layer.kind === 'image' ? layer.crop : undefined
+});
@@ -1,38 +1,212 @@
+import { ProjectDocument, ProjectResults } from '../types';
+import { ParsedProject, ProjectValidationError, isObject, parseProject, parseProjectResults, serializeProject } from './projectSchema';
+import { createZip, isZip, readZip } from './zipArchive';
 
-import { CanvasLayer } from '../types';
+/**
+ * A .vmix file is a ZIP package: `manifest.json` holds the project and its results, with every
+ * embedded image replaced by a reference to a content-hashed file under `assets/`, so identical
+ * images are stored once. Plain-JSON .vmix files from earlier versions are still read.
+ */
+const PACKAGE_FORMAT = 'visionmix-package';
+const PACKAGE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const ASSET_REF_PREFIX = 'vmix-asset:';
 
-export const saveProject = (layers: CanvasLayer[]) => {
-  const data = JSON.stringify({ 
-    version: '1.0', 
-    timestamp: Date.now(), 
-    layers 
-  }, null, 2);
-  
-  const blob = new Blob([data], { type: 'application/json' });
+export interface LoadedProject extends ParsedProject {
+  results: ProjectResults | null; // Null for plain-JSON files, which never held results
+}
+
+interface PackageAsset {
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
+// Project and results stay unvalidated here; projectSchema checks them once assets are restored
+interface PackageBody {
+  project: unknown;
+  results: unknown;
+}
+
+interface PackageManifest extends PackageBody {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  assets: PackageAsset[];
+}
+
+const BASE64_DATA_URL = /^data:([^;,]+);base64,/;
+
+// Turns the project name into a safe download file name
+const toFileName = (name: string) =>
+  (name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'visionmix-project') + '.vmix';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg'
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime]));
+
+const mapField = (value: unknown, key: string, fn: (field: unknown) => unknown): unknown =>
+  isObject(value) && key in value ? { ...value, [key]: fn(value[key]) } : value;
+
+const mapItems = (value: unknown, fn: (item: unknown) => unknown): unknown =>
+  Array.isArray(value) ? value.map(fn) : value;
+
+/**
+ * Replaces the image URLs of a package body: layer images, the background image and result
+ * images. Prompts and text layers are left alone, even if they look like asset references.
+ */
+const mapImageUrls = (body: PackageBody, fn: (url: string) => string): PackageBody => {
+  const url = (value: unknown) => typeof value === 'string' ? fn(value) : value;
+  const layer = (item: unknown) => mapField(mapField(item, 'url', url), 'sourceUrl', url);
+  const entry = (item: unknown) => mapField(mapField(item, 'url', url), 'sourceThumbnails', list => mapItems(list, url));
+  const canvas = (value: unknown) => mapField(value, 'background', background => mapField(background, 'url', url));
+  return {
+    project: mapField(mapField(body.project, 'layers', list => mapItems(list, layer)), 'canvas', canvas),
+    results: mapField(mapField(body.results, 'history', list => mapItems(list, entry)), 'lastResult', url)
+  };
+};
+
+const collectDataUrls = (body: PackageBody, found: Set<string>) => {
+  mapImageUrls(body, url => {
+    if (BASE64_DATA_URL.test(url)) found.add(url);
+    return url;
+  });
+};
+
+const isPackageAsset = (value: unknown): value is PackageAsset =>
+  isObject(value) && typeof value.path === 'string' && typeof value.mimeType === 'string' && typeof value.size === 'number';
+
+const parseManifest = (raw: unknown): PackageManifest => {
+  if (!isObject(raw) || raw.format !== PACKAGE_FORMAT) throw new Error("Not a VisionMix project package");
+  if (typeof raw.version !== 'number' || !isObject(raw.project)) throw new Error("Project manifest is missing its version or project");
+  if (!Array.isArray(raw.assets) || !raw.assets.every(isPackageAsset)) throw new Error("Project manifest has an invalid asset list");
+  return { format: PACKAGE_FORMAT, version: raw.version, project: raw.project, results: raw.results, assets: raw.assets };
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const CHUNK = 0x8000; // Stays under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const download = (blob: Blob, fileName: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `visionmix-project-${new Date().toISOString().slice(0,10)}.vmix`;
+  a.download = fileName;
   a.click();
   URL.revokeObjectURL(url);
 };
 
-export const loadProject = async (file: File): Promise<CanvasLayer[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const json = JSON.parse(e.target?.result as string);
-        if (json.layers && Array.isArray(json.layers)) {
-          resolve(json.layers);
-        } else {
-          reject(new Error("Invalid .vmix project file structure"));
-        }
-      } catch (err) {
-        reject(new Error("Failed to parse project file"));
-      }
-    };
-    reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsText(file);
+export const saveProject = async (project: ProjectDocument, results: ProjectResults) => {
+  const body: PackageBody = { project: serializeProject(project), results };
+
+  const dataUrls = new Set<string>();
+  collectDataUrls(body, dataUrls);
+
+  // One file per distinct image, named by its content hash
+  const refs = new Map<string, string>();
+  const assets = new Map<string, { data: Uint8Array; mimeType: string }>();
+  for (const url of Array.from(dataUrls)) {
+    const mimeType = url.match(BASE64_DATA_URL)![1];
+    const data = base64ToBytes(url.slice(url.indexOf(',') + 1));
+    const path = `assets/${await sha256Hex(data)}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+    refs.set(url, ASSET_REF_PREFIX + path);
+    assets.set(path, { data, mimeType });
+  }
+
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    ...mapImageUrls(body, url => refs.get(url) ?? url),
+    assets: Array.from(assets, ([path, asset]) => ({ path, mimeType: asset.mimeType, size: asset.data.length }))
+  };
+
+  const zip = createZip([
+    { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+    ...Array.from(assets, ([path, asset]) => ({ name: path, data: asset.data }))
+  ]);
+  download(zip, toFileName(project.name));
+};
+
+const loadPackage = async (bytes: Uint8Array): Promise<LoadedProject> => {
+  const files = await readZip(bytes);
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error("Project package has no manifest.json");
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (err) {
+    throw new Error("Failed to parse project manifest");
+  }
+  const manifest = parseManifest(json);
+
+  const warnings: string[] = [];
+  if (manifest.version > PACKAGE_VERSION) {
+    warnings.push(`This package was written by a newer version of VisionMix (package v${manifest.version}).`);
+  }
+
+  // Swap asset references back to data URLs; a missing asset is reported like any invalid field
+  const mimeTypes = new Map(manifest.assets.map(asset => [asset.path, asset.mimeType]));
+  const missing: string[] = [];
+  const body = mapImageUrls(manifest, url => {
+    if (!url.startsWith(ASSET_REF_PREFIX)) return url;
+    const path = url.slice(ASSET_REF_PREFIX.length);
+    const data = files.get(path);
+    if (!data) {
+      missing.push(path);
+      return url;
+    }
+    const mimeType = mimeTypes.get(path) ?? MIME_TYPES[path.split('.').pop() ?? ''] ?? 'application/octet-stream';
+    return `data:${mimeType};base64,${bytesToBase64(data)}`;
   });
+  if (missing.length > 0) {
+    throw new ProjectValidationError(missing.map(path => ({ path, message: 'is referenced but missing from the package' })));
+  }
+
+  const parsed = parseProject(body.project);
+  return {
+    document: parsed.document,
+    warnings: [...warnings, ...parsed.warnings],
+    results: body.results === undefined ? null : parseProjectResults(body.results)
+  };
+};
+
+/**
+ * Reads a .vmix package, or a plain-JSON .vmix file of any earlier version. Rejects with a
+ * ProjectValidationError naming the invalid fields, or a plain Error when the file is unreadable.
+ */
+export const loadProject = async (file: File): Promise<LoadedProject> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isZip(bytes)) return loadPackage(bytes);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (err) {
+    throw new Error("Failed to parse project file");
+  }
+  return { ...parseProject(json), results: null };
 };
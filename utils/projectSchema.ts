@@ -0,0 +1,310 @@
+import { CanvasLayer, CanvasSettings, GeneratedImage, ProjectDocument, ProjectResults } from '../types';
+import { BLEND_MODES } from './canvasLayout';
+import { SHAPE_KINDS } from './layerGraphics';
+
+/**
+ * .vmix schema. Version 1 files wrote `version: '1.0'` and held only layers (plus canvas
+ * settings in later 1.0 builds); version 2 holds the whole ProjectDocument.
+ */
+export const PROJECT_FORMAT = 'visionmix-project';
+export const CURRENT_PROJECT_VERSION = 2;
+
+export const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+export const DEFAULT_CANVAS_SETTINGS: CanvasSettings = {
+  width: 600,
+  height: 600,
+  background: { kind: 'color', color: '#ffffff' },
+  exportLongEdge: 1024,
+  workingLongEdge: 2048
+};
+
+export interface ProjectIssue {
+  path: string; // e.g. `layers[2].originalWidth`
+  message: string;
+}
+
+/**
+ * Raised when a project file does not match the schema. `issues` lists every offending field.
+ */
+export class ProjectValidationError extends Error {
+  issues: ProjectIssue[];
+
+  constructor(issues: ProjectIssue[]) {
+    const shown = issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`Invalid project file. ${shown}${more}`);
+    this.name = 'ProjectValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ParsedProject {
+  document: ProjectDocument;
+  warnings: string[]; // Non-fatal findings, e.g. a file from a newer version
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Migrations ---
+
+// Each step upgrades a raw document from version N to N + 1
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => unknown> = {
+  1: (raw) => ({
+    format: PROJECT_FORMAT,
+    version: 2,
+    savedAt: raw.timestamp,
+    name: DEFAULT_PROJECT_NAME,
+    // 1.0 files saved before document settings existed have no canvas
+    canvas: { ...DEFAULT_CANVAS_SETTINGS, ...(isObject(raw.canvas) ? raw.canvas : {}) },
+    // ...and those saved before text and shape layers have image layers without a `kind`
+    layers: Array.isArray(raw.layers) ? raw.layers.map((layer: unknown) => isObject(layer) && !layer.kind ? { ...layer, kind: 'image' } : layer) : raw.layers,
+    selectedLayerIds: [],
+    prompt: ''
+  })
+};
+
+// 1.0 files wrote the version as a string; files from before versioning have none
+const getVersion = (raw: Record<string, unknown>): number => {
+  if (raw.version === undefined) return 1;
+  if (typeof raw.version === 'string' && /^\d+(\.0+)?$/.test(raw.version)) return parseInt(raw.version, 10);
+  return typeof raw.version === 'number' ? raw.version : NaN;
+};
+
+// Older versions need a migration step for every version up to the current one
+const checkVersion = (version: number): ProjectIssue | null => {
+  if (!Number.isInteger(version) || version < 1) {
+    return { path: 'version', message: 'must be a whole number of at least 1' };
+  }
+  for (let step = version; step < CURRENT_PROJECT_VERSION; step++) {
+    if (!MIGRATIONS[step]) return { path: 'version', message: `version ${version} cannot be upgraded` };
+  }
+  return null;
+};
+
+// --- Validation ---
+
+// Data URLs must carry an image; remote links cannot be checked until they load
+const isImageUrl = (value: unknown) =>
+  typeof value === 'string' && (/^data:image\/[\w.+-]+[;,]/.test(value) || /^https?:\/\//.test(value));
+
+class Checker {
+  issues: ProjectIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  number(obj: Record<string, unknown>, key: string, path: string, options: { min?: number; max?: number; positive?: boolean; optional?: boolean } = {}) {
+    const value = obj[key];
+    if (value === undefined && options.optional) return;
+    if (value === undefined) return this.fail(`${path}.${key}`, 'is missing');
+    // JSON turns NaN and Infinity into null
+    if (typeof value !== 'number' || !Number.isFinite(value)) return this.fail(`${path}.${key}`, 'must be a finite number');
+    if (options.positive && value <= 0) return this.fail(`${path}.${key}`, 'must be greater than 0');
+    if (options.min !== undefined && value < options.min) return this.fail(`${path}.${key}`, `must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) this.fail(`${path}.${key}`, `must be at most ${options.max}`);
+  }
+
+  string(obj: Record<string, unknown>, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (typeof value !== 'string') this.fail(`${path}.${key}`, value === undefined ? 'is missing' : 'must be a string');
+  }
+
+  oneOf(obj: Record<string, unknown>, key: string, path: string, allowed: readonly unknown[], optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (!allowed.includes(value)) this.fail(`${path}.${key}`, `must be one of ${allowed.join(', ')}`);
+  }
+
+  imageUrl(obj: Record<string, unknown>, key: string, path: string, optional = false) {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (!isImageUrl(value)) this.fail(`${path}.${key}`, 'must be an image data URL or an http(s) link');
+  }
+
+  // True when no issue was reported since `before`, so validators can double as type guards
+  passedSince(before: number) {
+    return this.issues.length === before;
+  }
+}
+
+const checkCanvas = (check: Checker, canvas: unknown): canvas is CanvasSettings => {
+  if (!isObject(canvas)) {
+    check.fail('canvas', 'must be an object');
+    return false;
+  }
+  const before = check.issues.length;
+  ['width', 'height', 'exportLongEdge', 'workingLongEdge'].forEach(key => check.number(canvas, key, 'canvas', { positive: true }));
+
+  const background = canvas.background;
+  if (!isObject(background)) {
+    check.fail('canvas.background', 'must be an object');
+    return false;
+  }
+  check.oneOf(background, 'kind', 'canvas.background', ['color', 'transparent', 'image']);
+  if (background.kind === 'color') check.string(background, 'color', 'canvas.background');
+  if (background.kind === 'image') check.imageUrl(background, 'url', 'canvas.background');
+  return check.passedSince(before);
+};
+
+// Crops are fractions of the image; an empty crop would divide by zero when drawn
+const CROP_EPSILON = 1e-6; // Slack for floating-point sums
+const checkCrop = (check: Checker, crop: Record<string, unknown>, path: string) => {
+  ['x', 'y'].forEach(key => check.number(crop, key, path, { min: 0, max: 1 }));
+  ['width', 'height'].forEach(key => check.number(crop, key, path, { positive: true, max: 1 }));
+  const { x, y, width, height } = crop;
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof width !== 'number' || typeof height !== 'number') return;
+  if (x + width > 1 + CROP_EPSILON) check.fail(`${path}.width`, 'must not extend past the right edge (x + width ≤ 1)');
+  if (y + height > 1 + CROP_EPSILON) check.fail(`${path}.height`, 'must not extend past the bottom edge (y + height ≤ 1)');
+};
+
+const checkLayer = (check: Checker, layer: Record<string, unknown>, path: string): layer is Record<string, unknown> & CanvasLayer => {
+  const before = check.issues.length;
+  check.string(layer, 'id', path);
+  ['x', 'y', 'rotation', 'zIndex'].forEach(key => check.number(layer, key, path));
+  ['scale', 'originalWidth', 'originalHeight', 'aspectRatio'].forEach(key => check.number(layer, key, path, { positive: true }));
+  check.number(layer, 'opacity', path, { min: 0, max: 1, optional: true });
+  check.oneOf(layer, 'blendMode', path, BLEND_MODES, true);
+  if (layer.groupPath !== undefined && !(Array.isArray(layer.groupPath) && layer.groupPath.every((id: unknown) => typeof id === 'string'))) {
+    check.fail(`${path}.groupPath`, 'must be a list of group ids');
+  }
+  const adjustments = layer.adjustments;
+  if (adjustments !== undefined) {
+    if (!isObject(adjustments)) check.fail(`${path}.adjustments`, 'must be an object');
+    else ['brightness', 'contrast', 'saturation', 'hue', 'blur', 'sharpen'].forEach(key => check.number(adjustments, key, `${path}.adjustments`));
+  }
+
+  if (layer.kind === 'image') {
+    check.imageUrl(layer, 'url', path);
+    check.imageUrl(layer, 'sourceUrl', path, true);
+    if (layer.crop !== undefined) {
+      if (!isObject(layer.crop)) check.fail(`${path}.crop`, 'must be an object');
+      else checkCrop(check, layer.crop, `${path}.crop`);
+    }
+  } else if (layer.kind === 'text') {
+    ['text', 'fontFamily', 'color', 'strokeColor'].forEach(key => check.string(layer, key, path));
+    check.number(layer, 'fontSize', path, { min: 1 });
+    check.number(layer, 'fontWeight', path, { min: 1 });
+    check.number(layer, 'strokeWidth', path, { min: 0 });
+    check.oneOf(layer, 'align', path, ['left', 'center', 'right']);
+  } else if (layer.kind === 'shape') {
+    check.oneOf(layer, 'shape', path, SHAPE_KINDS);
+    check.string(layer, 'stroke', path);
+    check.number(layer, 'strokeWidth', path, { min: 0 });
+    if (layer.fill !== null) check.string(layer, 'fill', path);
+  }
+  return check.passedSince(before);
+};
+
+const LAYER_KINDS = ['image', 'text', 'shape'];
+
+/**
+ * Migrates a parsed .vmix JSON object to the current version and validates it.
+ * Throws ProjectValidationError listing every invalid field.
+ */
+export const parseProject = (raw: unknown): ParsedProject => {
+  if (!isObject(raw)) throw new ProjectValidationError([{ path: '(root)', message: 'must be a JSON object' }]);
+  const warnings: string[] = [];
+
+  const savedVersion = getVersion(raw);
+  const versionIssue = checkVersion(savedVersion);
+  if (versionIssue) throw new ProjectValidationError([versionIssue]);
+
+  let migrated: unknown = raw;
+  for (let version = savedVersion; version < CURRENT_PROJECT_VERSION; version++) {
+    if (!isObject(migrated)) break;
+    migrated = MIGRATIONS[version](migrated);
+  }
+  if (!isObject(migrated)) throw new ProjectValidationError([{ path: '(root)', message: 'must be a JSON object' }]);
+  const doc = migrated;
+  if (savedVersion > CURRENT_PROJECT_VERSION) {
+    warnings.push(`This project was saved by a newer version of VisionMix (format v${savedVersion}). Anything this version does not understand was left out.`);
+  }
+
+  const check = new Checker();
+  const { name, prompt, canvas } = doc;
+  if (typeof name !== 'string') check.fail('name', 'must be a string');
+  if (typeof prompt !== 'string') check.fail('prompt', 'must be a string');
+  const canvasValid = checkCanvas(check, canvas);
+
+  const layers: CanvasLayer[] = [];
+  if (!Array.isArray(doc.layers)) {
+    check.fail('layers', 'must be a list');
+  } else {
+    doc.layers.forEach((layer: unknown, index: number) => {
+      const path = `layers[${index}]`;
+      if (!isObject(layer)) return check.fail(path, 'must be an object');
+      if (typeof layer.kind !== 'string' || !LAYER_KINDS.includes(layer.kind)) {
+        // Newer files may hold layer kinds this version cannot draw
+        if (savedVersion > CURRENT_PROJECT_VERSION) {
+          warnings.push(`Skipped ${path}: unsupported layer kind "${layer.kind}".`);
+          return;
+        }
+        return check.fail(`${path}.kind`, `must be one of ${LAYER_KINDS.join(', ')}`);
+      }
+      if (checkLayer(check, layer, path)) layers.push(layer);
+    });
+  }
+  if (check.issues.length > 0 || typeof name !== 'string' || typeof prompt !== 'string' || !canvasValid) {
+    throw new ProjectValidationError(check.issues);
+  }
+
+  const ids = new Set(layers.map(layer => layer.id));
+  const selection = Array.isArray(doc.selectedLayerIds)
+    ? doc.selectedLayerIds.filter((id: unknown): id is string => typeof id === 'string' && ids.has(id))
+    : [];
+
+  return {
+    document: { name, canvas, layers, selectedLayerIds: selection, prompt },
+    warnings
+  };
+};
+
+/** Serializable form of a project at the current schema version. */
+export const serializeProject = (document: ProjectDocument) => ({
+  format: PROJECT_FORMAT,
+  version: CURRENT_PROJECT_VERSION,
+  savedAt: Date.now(),
+  ...document
+});
+
+const checkHistoryEntry = (check: Checker, entry: Record<string, unknown>, path: string): entry is Record<string, unknown> & GeneratedImage => {
+  const before = check.issues.length;
+  check.string(entry, 'id', path);
+  check.string(entry, 'prompt', path);
+  check.imageUrl(entry, 'url', path);
+  check.number(entry, 'timestamp', path);
+  check.oneOf(entry, 'type', path, ['generation', 'edit']);
+  check.string(entry, 'parentId', path, true);
+  check.string(entry, 'instruction', path, true);
+  return check.passedSince(before);
+};
+
+/**
+ * Validates the results stored next to a project in a .vmix package.
+ * Throws ProjectValidationError listing every invalid field.
+ */
+export const parseProjectResults = (raw: unknown): ProjectResults => {
+  const check = new Checker();
+  if (!isObject(raw)) throw new ProjectValidationError([{ path: 'results', message: 'must be an object' }]);
+
+  const history: GeneratedImage[] = [];
+  if (!Array.isArray(raw.history)) {
+    check.fail('results.history', 'must be a list');
+  } else {
+    raw.history.forEach((entry: unknown, index: number) => {
+      const path = `results.history[${index}]`;
+      if (!isObject(entry)) return check.fail(path, 'must be an object');
+      if (checkHistoryEntry(check, entry, path)) history.push(entry);
+    });
+  }
+  const { lastResult } = raw;
+  if (lastResult !== null) check.imageUrl(raw, 'lastResult', 'results');
+  if (check.issues.length > 0) throw new ProjectValidationError(check.issues);
+
+  return { history, lastResult: typeof lastResult === 'string' ? lastResult : null };
+};
+
@@ -0,0 +1,158 @@
+import { ProjectDocument, ProjectResults } from '../types';
+import { ParsedProject, ProjectValidationError, isObject, parseProject, parseProjectResults, serializeProject } from './projectSchema';
+
+/**
+ * Local project library in IndexedDB. Summaries and workspaces live in separate stores so the
+ * library can be listed without loading every project's images.
+ */
+const DB_NAME = 'visionmix';
+const DB_VERSION = 1;
+const SUMMARIES = 'projects';
+const WORKSPACES = 'workspaces';
+const META = 'meta';
+const LAST_SESSION_KEY = 'lastSession';
+// Workspaces saved before documents were stored with their schema version are all at version 2
+const UNVERSIONED_WORKSPACE_VERSION = 2;
+
+/** Raised when the browser refuses a write because its storage quota is used up. */
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full. Delete old projects or history to free space.");
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  layerCount: number;
+  resultCount: number;
+}
+
+export interface StoredWorkspace {
+  document: ProjectDocument;
+  results: ProjectResults;
+}
+
+export interface LoadedWorkspace extends ParsedProject {
+  results: ProjectResults;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(WORKSPACES)) db.createObjectStore(WORKSPACES);
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(new Error("Local storage is unavailable"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Local storage request failed"));
+  });
+
+// Runs `body` in one transaction and resolves once it has committed
+const transact = async <T>(stores: string[], mode: IDBTransactionMode, body: (tx: IDBTransaction) => Promise<T> | T): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error?.name === 'QuotaExceededError'
+      ? new StorageQuotaError()
+      : tx.error ?? new Error("Local storage transaction failed"));
+  });
+  // If `body` fails first, the abort that follows must not surface as an unhandled rejection
+  done.catch(() => {});
+  const result = await body(tx);
+  await done;
+  return result;
+};
+
+export const newProjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+export const listProjects = (): Promise<ProjectSummary[]> =>
+  transact([SUMMARIES], 'readonly', async tx => {
+    const summaries = await promisify(tx.objectStore(SUMMARIES).getAll() as IDBRequest<ProjectSummary[]>);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+/**
+ * Reads a workspace through the same migrations and validation as a .vmix file, so old or
+ * corrupted autosaves are upgraded or rejected with a ProjectValidationError.
+ */
+export const getWorkspace = async (id: string): Promise<LoadedWorkspace | undefined> => {
+  const raw = await transact([WORKSPACES], 'readonly', tx => promisify(tx.objectStore(WORKSPACES).get(id) as IDBRequest<unknown>));
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) throw new ProjectValidationError([{ path: '(root)', message: 'must be an object' }]);
+  const document = isObject(raw.document) && raw.document.version === undefined
+    ? { ...raw.document, version: UNVERSIONED_WORKSPACE_VERSION }
+    : raw.document;
+  return { ...parseProject(document), results: parseProjectResults(raw.results) };
+};
+
+/** Creates or overwrites a project, keeping its original creation time. */
+export const putProject = (id: string, workspace: StoredWorkspace): Promise<void> =>
+  transact([SUMMARIES, WORKSPACES], 'readwrite', async tx => {
+    const summaries = tx.objectStore(SUMMARIES);
+    const existing = await promisify(summaries.get(id) as IDBRequest<ProjectSummary | undefined>);
+    const now = Date.now();
+    summaries.put({
+      id,
+      name: workspace.document.name,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      layerCount: workspace.document.layers.length,
+      resultCount: workspace.results.history.length
+    } satisfies ProjectSummary);
+    tx.objectStore(WORKSPACES).put({ ...workspace, document: serializeProject(workspace.document) }, id);
+  });
+
+export const renameProject = (id: string, name: string): Promise<void> =>
+  transact([SUMMARIES, WORKSPACES], 'readwrite', async tx => {
+    const summary = await promisify(tx.objectStore(SUMMARIES).get(id) as IDBRequest<ProjectSummary | undefined>);
+    const workspace = await promisify(tx.objectStore(WORKSPACES).get(id) as IDBRequest<StoredWorkspace | undefined>);
+    if (!summary || !workspace) return;
+    tx.objectStore(SUMMARIES).put({ ...summary, name, updatedAt: Date.now() });
+    tx.objectStore(WORKSPACES).put({ ...workspace, document: { ...workspace.document, name } }, id);
+  });
+
+/** Copies a project under a new id and returns that id. */
+export const duplicateProject = async (id: string, name: string): Promise<string> => {
+  const workspace = await getWorkspace(id);
+  if (!workspace) throw new Error("Project not found");
+  const copyId = newProjectId();
+  await putProject(copyId, { document: { ...workspace.document, name }, results: workspace.results });
+  return copyId;
+};
+
+export const deleteProject = (id: string): Promise<void> =>
+  transact([SUMMARIES, WORKSPACES, META], 'readwrite', async tx => {
+    tx.objectStore(SUMMARIES).delete(id);
+    tx.objectStore(WORKSPACES).delete(id);
+    const last = await promisify(tx.objectStore(META).get(LAST_SESSION_KEY) as IDBRequest<string | undefined>);
+    if (last === id) tx.objectStore(META).delete(LAST_SESSION_KEY);
+  });
+
+/** Id of the project that was open when the app was last used, for crash recovery. */
+export const getLastSession = (): Promise<string | undefined> =>
+  transact([META], 'readonly', tx => promisify(tx.objectStore(META).get(LAST_SESSION_KEY) as IDBRequest<string | undefined>));
+
+export const setLastSession = (id: string): Promise<void> =>
+  transact([META], 'readwrite', tx => { tx.objectStore(META).put(id, LAST_SESSION_KEY); });